@@ -1,82 +1,156 @@
-import { AnalysisRequest, AnalysisResult, Platform, PlatformAnalysis, TechStack, Personality } from './types.js';
-import { GitHubService } from './services/github.js';
-import { TwitterService } from './services/twitter.js';
-import { SpeakerDeckService } from './services/speakerdeck.js';
-import { BlogService } from './services/blog.js';
+import { AnalysisRequest, AnalysisResult, AnalysisStatus, Platform, PlatformAnalysis, PlatformService, PlatformStatus, ProgressReporter, TechStack, Personality } from './types.js';
+import { PlatformRegistry } from './registry.js';
+import { AnalysisCache, MemoryCache } from './cache.js';
+import { PlatformError } from './errors.js';
+import { RateLimitError } from './ratelimit.js';
+import { mergeEvidence } from './evidence.js';
+import { mergeTimelines, splitByRecency } from './timeline.js';
+
+/**
+ * 要約に表示する分析状況のラベル
+ */
+export const STATUS_LABELS: Record<AnalysisStatus, string> = {
+  [AnalysisStatus.OK]: '分析済み',
+  [AnalysisStatus.FAILED]: 'エラー',
+  [AnalysisStatus.SKIPPED_NO_TOKEN]: 'トークン未設定のためスキップ',
+  [AnalysisStatus.RATE_LIMITED]: 'レート制限',
+  [AnalysisStatus.NOT_FOUND]: '見つかりません',
+  [AnalysisStatus.TIMED_OUT]: 'タイムアウト',
+  [AnalysisStatus.CANCELLED]: '中断',
+};
+
+/**
+ * 分析の制限時間とキャッシュの設定
+ */
+export interface AnalyzerOptions {
+  platformTimeoutMs: number; // プラットフォームごとの制限時間
+  overallTimeoutMs: number; // 分析全体の制限時間
+  platformTimeouts?: Record<string, number>; // プラットフォームIDごとの制限時間の上書き
+  cacheTtlMs: number; // プラットフォームごとの分析結果をキャッシュする期間
+  platformCacheTtls?: Record<string, number>; // プラットフォームIDごとのキャッシュ期間の上書き（cacheTtlMsを指定した場合は既定値を使わない）
+  platformWeights?: Record<string, number>; // 技術スタックを統合するときのプラットフォームIDごとの重み（未指定は1）
+}
+
+export const DEFAULT_ANALYZER_OPTIONS: AnalyzerOptions = {
+  platformTimeoutMs: 60 * 1000,
+  overallTimeoutMs: 120 * 1000,
+  cacheTtlMs: 6 * 60 * 60 * 1000,
+  platformCacheTtls: {
+    [Platform.TWITTER]: 60 * 60 * 1000, // 発信の変化が速いため短め
+    [Platform.SPEAKERDECK]: 24 * 60 * 60 * 1000,
+    [Platform.BLOG]: 24 * 60 * 60 * 1000,
+  },
+  platformWeights: {
+    // コードから集計するプラットフォームを基準に、言及の数から推測するものは低めにする
+    [Platform.GITHUB]: 1,
+    [Platform.GITLAB]: 1,
+    [Platform.ZENN]: 0.8,
+    [Platform.QIITA]: 0.8,
+    [Platform.BLOG]: 0.8,
+    [Platform.SPEAKERDECK]: 0.7,
+    [Platform.TWITTER]: 0.5,
+  },
+};
+
+/**
+ * 分析全体の進捗
+ */
+export interface AnalysisProgress {
+  progress: number; // 通知ごとに増加する進捗値
+  total?: number; // 進捗値の上限（不明な場合は省略）
+  message: string; // 進捗の内容（「GitHub: 依存関係を解析中 (3/10)」など）
+}
+
+/**
+ * 1回の分析ごとのオプション
+ */
+export interface AnalyzeOptions {
+  signal?: AbortSignal; // 呼び出し元からの中断
+  forceRefresh?: boolean; // キャッシュを使わずに再取得する
+  onProgress?: (progress: AnalysisProgress) => void; // 各プラットフォームの開始・取得状況・完了を通知する
+}
 
 export class PersonAnalyzer {
-  private githubService: GitHubService;
-  private twitterService: TwitterService;
-  private speakerDeckService: SpeakerDeckService;
-  private blogService: BlogService;
+  private registry: PlatformRegistry;
+  private options: AnalyzerOptions;
+  private cache: AnalysisCache;
   
   constructor(
-    githubToken?: string,
-    twitterToken?: string
+    registry: PlatformRegistry,
+    options: Partial<AnalyzerOptions> = {},
+    cache: AnalysisCache = new MemoryCache()
   ) {
-    this.githubService = new GitHubService(githubToken);
-    this.twitterService = new TwitterService(twitterToken);
-    this.speakerDeckService = new SpeakerDeckService();
-    this.blogService = new BlogService();
+    this.registry = registry;
+    this.options = {
+      ...DEFAULT_ANALYZER_OPTIONS,
+      ...options,
+      // キャッシュ期間を指定された場合は、プラットフォームごとの既定値より優先する
+      platformCacheTtls: {
+        ...(options.cacheTtlMs === undefined && DEFAULT_ANALYZER_OPTIONS.platformCacheTtls),
+        ...options.platformCacheTtls,
+      },
+      platformWeights: { ...DEFAULT_ANALYZER_OPTIONS.platformWeights, ...options.platformWeights },
+    };
+    this.cache = cache;
   }
 
   /**
    * 複数のプラットフォームからデータを取得して分析
+   *
+   * 各プラットフォームは並行して分析し、制限時間内に完了したものだけを結果に含める。
+   * プラットフォームごとの分析結果はURL単位でキャッシュし、他の入力が異なる分析でも再利用する
    */
-  public async analyze(request: AnalysisRequest): Promise<AnalysisResult> {
-    const platformAnalyses: PlatformAnalysis[] = [];
+  public async analyze(request: AnalysisRequest, options: AnalyzeOptions = {}): Promise<AnalysisResult> {
+    const { signal, forceRefresh = false, onProgress } = options;
     
     try {
-      // GitHub分析
-      if (request.github) {
-        try {
-          const githubAnalysis = await this.githubService.analyze(request.github);
-          platformAnalyses.push(githubAnalysis);
-        } catch (error) {
-          console.error('GitHub分析エラー:', error);
-        }
-      }
+      // 分析全体の制限時間（呼び出し元からの中断も含む）
+      const overallSignal = AbortSignal.any([
+        AbortSignal.timeout(this.options.overallTimeoutMs),
+        ...(signal ? [signal] : []),
+      ]);
       
-      // Twitter分析
-      if (request.twitter) {
-        try {
-          const twitterAnalysis = await this.twitterService.analyze(request.twitter);
-          platformAnalyses.push(twitterAnalysis);
-        } catch (error) {
-          console.error('Twitter分析エラー:', error);
-        }
-      }
+      // 登録されたサービスのうち、URLが指定されたものを並行して分析
+      const targets = this.registry.list()
+        .map(service => ({ service, url: request[service.platform] }))
+        .filter((target): target is { service: PlatformService; url: string } => Boolean(target.url));
       
-      // SpeakerDeck分析
-      if (request.speakerdeck) {
-        try {
-          const speakerDeckAnalysis = await this.speakerDeckService.analyze(request.speakerdeck);
-          platformAnalyses.push(speakerDeckAnalysis);
-        } catch (error) {
-          console.error('SpeakerDeck分析エラー:', error);
-        }
-      }
+      // 進捗はプラットフォームを問わず通知のたびに増やす（各サービスの取得件数は事前にわからないため）
+      let step = 0;
+      let finished = 0;
       
-      // ブログ分析
-      if (request.blog) {
-        try {
-          const blogAnalysis = await this.blogService.analyze(request.blog);
-          platformAnalyses.push(blogAnalysis);
-        } catch (error) {
-          console.error('ブログ分析エラー:', error);
-        }
-      }
+      const outcomes = await Promise.all(
+        targets.map(async ({ service, url }) => {
+          const report: ProgressReporter = message =>
+            onProgress?.({ progress: ++step, message: `${service.label}: ${message}` });
+          
+          const outcome = await this.analyzePlatform(service, url, overallSignal, forceRefresh, report);
+          const { status } = outcome.status;
+          finished++;
+          report(status === AnalysisStatus.OK
+            ? `分析完了 (${finished}/${targets.length})`
+            : `${STATUS_LABELS[status]} (${finished}/${targets.length})`);
+          
+          return outcome;
+        })
+      );
+      
+      const platformAnalyses = outcomes
+        .map(outcome => outcome.analysis)
+        .filter((analysis): analysis is PlatformAnalysis => analysis !== undefined);
+      const statuses = outcomes.map(outcome => outcome.status);
       
       // 分析結果の統合
       const techStack = this.mergeTechStacks(platformAnalyses);
       const personality = this.mergePersonalities(platformAnalyses);
-      const summary = this.generateSummary(platformAnalyses, techStack, personality);
+      const summary = this.generateSummary(platformAnalyses, techStack, personality, statuses);
       
       return {
         platforms: platformAnalyses,
         techStack,
         personality,
-        summary
+        summary,
+        statuses,
       };
     } catch (error) {
       console.error('分析エラー:', error);
@@ -85,38 +159,100 @@ export class PersonAnalyzer {
   }
 
   /**
-   * 各プラットフォームの技術スタック情報を統合
+   * 1つのプラットフォームを制限時間付きで分析
+   *
+   * サービスが中断に応じない場合でも、制限時間を過ぎたら結果を待たずに打ち切る
    */
-  private mergeTechStacks(analyses: PlatformAnalysis[]): TechStack {
-    const languages: Record<string, number> = {};
-    const frameworks: Record<string, number> = {};
-    const tools: Record<string, number> = {};
-    const topicsSet = new Set<string>();
+  private async analyzePlatform(
+    service: PlatformService,
+    url: string,
+    overallSignal: AbortSignal,
+    forceRefresh: boolean,
+    report: ProgressReporter
+  ): Promise<{ analysis?: PlatformAnalysis; status: PlatformStatus }> {
+    const cacheKey = `platform:${service.platform}:${url}`;
     
-    // 各プラットフォームのデータを統合
-    for (const analysis of analyses) {
-      // 言語
-      if (analysis.techStack.languages) {
-        for (const [lang, score] of Object.entries(analysis.techStack.languages)) {
-          languages[lang] = (languages[lang] || 0) + score;
-        }
+    if (!forceRefresh) {
+      const cached = await this.cache.get<PlatformAnalysis>(cacheKey);
+      if (cached) {
+        report('キャッシュ済みの分析結果を使用');
+        return {
+          analysis: cached,
+          status: { platform: service.platform, url, status: AnalysisStatus.OK },
+        };
       }
-      
-      // フレームワーク
-      if (analysis.techStack.frameworks) {
-        for (const [fw, score] of Object.entries(analysis.techStack.frameworks)) {
-          frameworks[fw] = (frameworks[fw] || 0) + score;
+    }
+    
+    const timeoutMs = this.options.platformTimeouts?.[service.platform] ?? this.options.platformTimeoutMs;
+    const signal = AbortSignal.any([overallSignal, AbortSignal.timeout(timeoutMs)]);
+    report('分析を開始');
+    
+    try {
+      const analysis = await new Promise<PlatformAnalysis>((resolve, reject) => {
+        if (signal.aborted) {
+          reject(signal.reason);
+          return;
         }
-      }
+        
+        const onAbort = () => reject(signal.reason);
+        signal.addEventListener('abort', onAbort, { once: true });
+        // 打ち切った後にサービスから届く進捗は通知しない
+        service.analyze(url, signal, message => {
+          if (!signal.aborted) report(message);
+        })
+          .then(resolve, reject)
+          .finally(() => signal.removeEventListener('abort', onAbort));
+      });
       
-      // ツール
-      if (analysis.techStack.tools) {
-        for (const [tool, score] of Object.entries(analysis.techStack.tools)) {
-          tools[tool] = (tools[tool] || 0) + score;
-        }
+      const ttlMs = this.options.platformCacheTtls?.[service.platform] ?? this.options.cacheTtlMs;
+      await this.cache.set(cacheKey, analysis, ttlMs);
+      
+      return {
+        analysis,
+        status: { platform: service.platform, url, status: AnalysisStatus.OK },
+      };
+    } catch (error) {
+      console.error(`${service.label}分析エラー:`, error);
+      
+      // 制限時間（AbortSignal.timeout）による中断と、呼び出し元からの中断を区別する
+      if (signal.aborted) {
+        const timedOut = signal.reason instanceof DOMException && signal.reason.name === 'TimeoutError';
+        return {
+          status: {
+            platform: service.platform,
+            url,
+            status: timedOut ? AnalysisStatus.TIMED_OUT : AnalysisStatus.CANCELLED,
+            reason: timedOut
+              ? `${service.label}の分析が制限時間内に完了しませんでした`
+              : `${service.label}の分析が中断されました`,
+          },
+        };
       }
       
-      // トピック
+      return {
+        status: {
+          platform: service.platform,
+          url,
+          status: error instanceof PlatformError ? error.status : AnalysisStatus.FAILED,
+          reason: error instanceof Error ? error.message : String(error),
+          ...(error instanceof RateLimitError && { resetAt: error.resetAt.toISOString() }),
+        },
+      };
+    }
+  }
+
+  /**
+   * 各プラットフォームの技術スタック情報を統合
+   *
+   * スコアの単位はプラットフォームごとに異なる（GitHubはバイト数、ブログは言及数など）ため、
+   * カテゴリごとに0〜1に正規化してから重み付きで平均する。
+   * 統合後のスコアは0〜1で、複数のプラットフォームで裏付けられた技術ほど高くなる
+   */
+  private mergeTechStacks(analyses: PlatformAnalysis[]): TechStack {
+    const topicsSet = new Set<string>();
+    
+    // トピック
+    for (const analysis of analyses) {
       if (analysis.techStack.topics) {
         for (const topic of analysis.techStack.topics) {
           topicsSet.add(topic);
@@ -124,27 +260,44 @@ export class PersonAnalyzer {
       }
     }
     
-    // 言語、フレームワーク、ツールをスコア順にソート
-    const sortByScore = (a: [string, number], b: [string, number]) => b[1] - a[1];
-    
-    const sortedLanguages = Object.fromEntries(
-      Object.entries(languages).sort(sortByScore)
-    );
+    return {
+      languages: this.mergeScores(analyses, techStack => techStack.languages),
+      frameworks: this.mergeScores(analyses, techStack => techStack.frameworks),
+      tools: this.mergeScores(analyses, techStack => techStack.tools),
+      topics: Array.from(topicsSet),
+      evidence: mergeEvidence(analyses.map(analysis => analysis.techStack.evidence)),
+      timeline: mergeTimelines(analyses.map(analysis => analysis.techStack.timeline)),
+    };
+  }
+
+  /**
+   * 1つのカテゴリのスコアを正規化・重み付けして統合し、スコア順に並べる
+   *
+   * そのカテゴリの技術を1つも検出しなかったプラットフォームは平均に含めない
+   */
+  private mergeScores(
+    analyses: PlatformAnalysis[],
+    select: (techStack: Partial<TechStack>) => Record<string, number> | undefined
+  ): Record<string, number> {
+    const weighted: Record<string, number> = {};
+    let totalWeight = 0;
     
-    const sortedFrameworks = Object.fromEntries(
-      Object.entries(frameworks).sort(sortByScore)
-    );
+    for (const analysis of analyses) {
+      const normalized = normalizeScores(select(analysis.techStack) ?? {});
+      if (Object.keys(normalized).length === 0) continue;
+      
+      const weight = this.options.platformWeights?.[analysis.platform] ?? 1;
+      totalWeight += weight;
+      for (const [name, score] of Object.entries(normalized)) {
+        weighted[name] = (weighted[name] || 0) + score * weight;
+      }
+    }
     
-    const sortedTools = Object.fromEntries(
-      Object.entries(tools).sort(sortByScore)
+    return Object.fromEntries(
+      Object.entries(weighted)
+        .map(([name, score]): [string, number] => [name, totalWeight > 0 ? score / totalWeight : 0])
+        .sort((a, b) => b[1] - a[1])
     );
-    
-    return {
-      languages: sortedLanguages,
-      frameworks: sortedFrameworks,
-      tools: sortedTools,
-      topics: Array.from(topicsSet)
-    };
   }
 
   /**
@@ -155,7 +308,8 @@ export class PersonAnalyzer {
     const activitiesSet = new Set<string>();
     const communicationTopicsSet = new Set<string>();
     const communicationStyles: string[] = [];
-    let communicationFrequency = 0;
+    const frequencies: number[] = [];
+    const engagements: number[] = [];
     const workStyles: string[] = [];
     
     // 各プラットフォームのデータを統合
@@ -179,9 +333,14 @@ export class PersonAnalyzer {
         communicationStyles.push(analysis.personality.communication.style);
       }
       
-      // コミュニケーション頻度（平均値を計算）
-      if (analysis.personality.communication?.frequency) {
-        communicationFrequency += analysis.personality.communication.frequency;
+      // コミュニケーション頻度（報告したプラットフォームのみで平均）
+      if (analysis.personality.communication?.frequency !== undefined) {
+        frequencies.push(analysis.personality.communication.frequency);
+      }
+      
+      // 反応数（報告したプラットフォームのみで平均）
+      if (analysis.personality.communication?.engagement !== undefined) {
+        engagements.push(analysis.personality.communication.engagement);
       }
       
       // コミュニケーショントピック
@@ -197,11 +356,6 @@ export class PersonAnalyzer {
       }
     }
     
-    // コミュニケーション頻度の平均を計算
-    const avgCommunicationFrequency = analyses.length > 0 
-      ? communicationFrequency / analyses.length 
-      : 0;
-    
     // 最も多く出現する仕事のスタイルを選択
     const workStyleCounts: Record<string, number> = {};
     for (const style of workStyles) {
@@ -217,10 +371,16 @@ export class PersonAnalyzer {
       activities: Array.from(activitiesSet),
       communication: {
         style: this.summarizeCommunicationStyle(communicationStyles),
-        frequency: avgCommunicationFrequency,
+        frequency: frequencies.length > 0
+          ? frequencies.reduce((sum, f) => sum + f, 0) / frequencies.length
+          : undefined,
         topics: Array.from(communicationTopicsSet),
+        engagement: engagements.length > 0
+          ? engagements.reduce((sum, e) => sum + e, 0) / engagements.length
+          : undefined,
       },
       workStyle: dominantWorkStyle,
+      evidence: mergeEvidence(analyses.map(analysis => analysis.personality.evidence)),
     };
   }
 
@@ -281,18 +441,13 @@ export class PersonAnalyzer {
   private generateSummary(
     analyses: PlatformAnalysis[],
     techStack: TechStack,
-    personality: Personality
+    personality: Personality,
+    statuses: PlatformStatus[] = []
   ): string {
     // 分析対象のプラットフォーム
-    const platforms = analyses.map(a => {
-      switch (a.platform) {
-        case Platform.GITHUB: return 'GitHub';
-        case Platform.TWITTER: return 'Twitter/X';
-        case Platform.SPEAKERDECK: return 'SpeakerDeck';
-        case Platform.BLOG: return 'ブログ';
-        default: return a.platform;
-      }
-    }).join('、');
+    const platforms = analyses
+      .map(a => this.registry.get(a.platform)?.label ?? a.platform)
+      .join('、');
     
     // 主要な技術スタック
     const topLanguages = Object.keys(techStack.languages).slice(0, 3);
@@ -317,6 +472,18 @@ export class PersonAnalyzer {
       summary += `・主なツール: ${topTools.join('、')}\n`;
     }
     
+    // 利用時期（最近の根拠がない技術は以前使っていたものとして分ける）
+    const { current, past } = splitByRecency(techStack);
+    if (current.length > 0) {
+      summary += `・現在使っている技術: ${current.slice(0, 5).join('、')}\n`;
+    }
+    if (past.length > 0) {
+      const formatted = past
+        .slice(0, 5)
+        .map(({ name, lastSeen }) => `${name}（${new Date(lastSeen).getUTCFullYear()}年まで）`);
+      summary += `・以前使っていた技術: ${formatted.join('、')}\n`;
+    }
+    
     // 人となりの要約
     summary += `\n【人となり】\n`;
     if (topInterests.length > 0) {
@@ -325,6 +492,9 @@ export class PersonAnalyzer {
     if (personality.communication?.style) {
       summary += `・コミュニケーションスタイル: ${personality.communication.style}\n`;
     }
+    if (personality.communication?.engagement) {
+      summary += `・1記事あたりの平均反応数: ${personality.communication.engagement.toFixed(1)}\n`;
+    }
     if (personality.workStyle) {
       summary += `・仕事のスタイル: ${personality.workStyle}\n`;
     }
@@ -339,6 +509,28 @@ export class PersonAnalyzer {
       }
     }
     
+    // 分析できなかったプラットフォーム
+    const failures = statuses.filter(s => s.status !== AnalysisStatus.OK);
+    if (failures.length > 0) {
+      summary += `\n【分析できなかったプラットフォーム】\n`;
+      for (const { platform, status, reason } of failures) {
+        const label = this.registry.get(platform)?.label ?? platform;
+        summary += `・${label}: ${STATUS_LABELS[status]}${reason ? `（${reason}）` : ''}\n`;
+      }
+    }
+    
     return summary;
   }
 }
+
+/**
+ * 1つのプラットフォームのスコアを0〜1に正規化
+ *
+ * バイト数のように偏りの大きい値でも2番目以降の技術が埋もれないよう、対数をとって最大値で割る
+ */
+function normalizeScores(scores: Record<string, number>): Record<string, number> {
+  const entries = Object.entries(scores).filter(([, score]) => score > 0);
+  const max = Math.max(...entries.map(([, score]) => Math.log1p(score)));
+  
+  return Object.fromEntries(entries.map(([name, score]) => [name, Math.log1p(score) / max]));
+}
@@ -0,0 +1,118 @@
+import { createHash, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * 分析結果のキャッシュ
+ */
+export interface AnalysisCache {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * 有効期限付きのキャッシュエントリ
+ */
+interface CacheEntry<T> {
+  expiresAt: number; // 有効期限（UNIXミリ秒）
+  value: T;
+}
+
+/**
+ * メモリ上のLRUキャッシュ（サーバーの再起動で消える）
+ */
+export class MemoryCache implements AnalysisCache {
+  private entries = new Map<string, CacheEntry<unknown>>();
+  private maxEntries: number;
+  
+  constructor(maxEntries: number = 100) {
+    this.maxEntries = maxEntries;
+  }
+
+  public async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    
+    // 最近使ったエントリを末尾に移動
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value as T;
+  }
+
+  public async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { expiresAt: Date.now() + ttlMs, value });
+    
+    // 上限を超えたら最も古く使われたエントリから削除
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  public async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * 指定ディレクトリにJSONファイルとして保存するキャッシュ（サーバーの再起動後も残る）
+ */
+export class FileCache implements AnalysisCache {
+  private directory: string;
+  
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  public async get<T>(key: string): Promise<T | undefined> {
+    try {
+      const content = await fs.readFile(this.filePath(key), 'utf-8');
+      const entry: CacheEntry<T> = JSON.parse(content);
+      
+      if (entry.expiresAt <= Date.now()) {
+        await this.delete(key);
+        return undefined;
+      }
+      return entry.value;
+    } catch (error) {
+      // 存在しない・壊れたファイルはキャッシュなしとして扱う
+      return undefined;
+    }
+  }
+
+  public async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    const entry: CacheEntry<T> = { expiresAt: Date.now() + ttlMs, value };
+    
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      // 書き込み途中のファイルを読まないよう、一時ファイルに書いてから置き換える
+      // （同じキーへの並行した書き込みが一時ファイルを共有しないよう、書き込みごとに名前を変える）
+      const filePath = this.filePath(key);
+      const tempPath = `${filePath}.${process.pid}.${randomUUID()}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(entry), 'utf-8');
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      console.error(`Failed to write cache ${key}:`, error);
+    }
+  }
+
+  public async delete(key: string): Promise<void> {
+    await fs.rm(this.filePath(key), { force: true });
+  }
+
+  /**
+   * キーからファイル名を生成（URLを含むキーをそのままファイル名にしない）
+   */
+  private filePath(key: string): string {
+    const hash = createHash('sha256').update(key).digest('hex');
+    return path.join(this.directory, `${hash}.json`);
+  }
+}
@@ -0,0 +1,171 @@
+import { AnalyzedProfile, profileUri } from './profiles.js';
+
+/**
+ * 比較表に表示する項目の最大件数（カテゴリごと）
+ */
+const MAX_TABLE_ROWS = 15;
+
+/**
+ * 比較対象の人物
+ */
+export interface ComparedPerson {
+  id: string;
+  name: string;
+  uri: string; // 分析結果を参照するリソースのURI
+}
+
+/**
+ * 1つのカテゴリ（言語・フレームワークなど）の比較結果
+ *
+ * 人物はpersonsの添字で表す
+ */
+export interface ItemComparison {
+  shared: string[]; // 全員に共通する項目
+  overlapping: { name: string; persons: number[] }[]; // 全員ではないが複数人に共通する項目
+  unique: string[][]; // 人物ごとの固有の項目
+}
+
+/**
+ * 人物ごとのコミュニケーションの傾向
+ */
+export interface CommunicationComparison {
+  style?: string;
+  frequency?: number;
+  engagement?: number;
+  workStyle?: string;
+}
+
+/**
+ * 複数人の比較結果
+ */
+export interface PersonComparison {
+  persons: ComparedPerson[];
+  languages: ItemComparison;
+  frameworks: ItemComparison;
+  tools: ItemComparison;
+  interests: ItemComparison;
+  communication: CommunicationComparison[];
+}
+
+/**
+ * 比較表のカテゴリ
+ */
+const CATEGORIES: { key: 'languages' | 'frameworks' | 'tools' | 'interests'; title: string }[] = [
+  { key: 'languages', title: '言語' },
+  { key: 'frameworks', title: 'フレームワーク' },
+  { key: 'tools', title: 'ツール' },
+  { key: 'interests', title: '興味・関心' },
+];
+
+/**
+ * 分析済みの人物を比較
+ */
+export function comparePersons(profiles: AnalyzedProfile[]): PersonComparison {
+  return {
+    persons: profiles.map(profile => ({
+      id: profile.id,
+      name: profile.name,
+      uri: profileUri(profile.id),
+    })),
+    languages: compareItems(profiles.map(profile => Object.keys(profile.result.techStack.languages))),
+    frameworks: compareItems(profiles.map(profile => Object.keys(profile.result.techStack.frameworks))),
+    tools: compareItems(profiles.map(profile => Object.keys(profile.result.techStack.tools))),
+    interests: compareItems(profiles.map(profile => profile.result.personality.interests)),
+    communication: profiles.map(({ result: { personality } }) => ({
+      style: personality.communication.style,
+      frequency: personality.communication.frequency,
+      engagement: personality.communication.engagement,
+      workStyle: personality.workStyle,
+    })),
+  };
+}
+
+/**
+ * 人物ごとの項目から共通・固有の項目を求める
+ */
+function compareItems(itemsPerPerson: string[][]): ItemComparison {
+  // 項目ごとに保有している人物の添字を集める（表記ゆれは大文字小文字のみ吸収）
+  const holders = new Map<string, { name: string; persons: number[] }>();
+  itemsPerPerson.forEach((items, person) => {
+    for (const item of new Set(items)) {
+      const key = item.toLowerCase();
+      const entry = holders.get(key) ?? { name: item, persons: [] };
+      if (!entry.persons.includes(person)) entry.persons.push(person);
+      holders.set(key, entry);
+    }
+  });
+
+  const entries = Array.from(holders.values());
+  return {
+    shared: entries
+      .filter(entry => entry.persons.length === itemsPerPerson.length)
+      .map(entry => entry.name),
+    overlapping: entries
+      .filter(entry => entry.persons.length > 1 && entry.persons.length < itemsPerPerson.length)
+      .sort((a, b) => b.persons.length - a.persons.length),
+    unique: itemsPerPerson.map((_, person) =>
+      entries
+        .filter(entry => entry.persons.length === 1 && entry.persons[0] === person)
+        .map(entry => entry.name)
+    ),
+  };
+}
+
+/**
+ * 比較結果をMarkdownの表に変換
+ */
+export function formatComparisonTable(comparison: PersonComparison, profiles: AnalyzedProfile[]): string {
+  const names = comparison.persons.map(person => person.name);
+  const header = `| 項目 | ${names.join(' | ')} |\n| --- |${names.map(() => ' --- |').join('')}\n`;
+
+  let table = `# ${names.join(' / ')} の比較\n`;
+
+  for (const { key, title } of CATEGORIES) {
+    const items = comparison[key];
+    // 共通する人数が多い順に、全員共通→一部共通→固有の項目を並べる
+    const rows = [
+      ...items.shared,
+      ...items.overlapping.map(entry => entry.name),
+      ...items.unique.flat(),
+    ].slice(0, MAX_TABLE_ROWS);
+    if (rows.length === 0) continue;
+
+    table += `\n## ${title}\n\n`;
+    table += `共通: ${items.shared.length > 0 ? items.shared.join(', ') : 'なし'}\n\n`;
+    table += header;
+    for (const item of rows) {
+      const cells = profiles.map(profile => formatCell(profile, key, item));
+      table += `| ${item} | ${cells.join(' | ')} |\n`;
+    }
+  }
+
+  // コミュニケーションの傾向
+  table += '\n## コミュニケーション\n\n';
+  table += header;
+  const rows: [string, (communication: CommunicationComparison) => string][] = [
+    ['スタイル', communication => communication.style || '-'],
+    ['発信頻度（月あたり）', communication => communication.frequency !== undefined ? communication.frequency.toFixed(1) : '-'],
+    ['平均反応数', communication => communication.engagement !== undefined ? communication.engagement.toFixed(1) : '-'],
+    ['仕事のスタイル', communication => communication.workStyle || '-'],
+  ];
+  for (const [label, format] of rows) {
+    table += `| ${label} | ${comparison.communication.map(format).join(' | ')} |\n`;
+  }
+
+  return table;
+}
+
+/**
+ * 比較表のセル（技術はスコア、興味・関心は有無）
+ */
+function formatCell(profile: AnalyzedProfile, key: typeof CATEGORIES[number]['key'], item: string): string {
+  const lower = item.toLowerCase();
+
+  if (key === 'interests') {
+    return profile.result.personality.interests.some(interest => interest.toLowerCase() === lower) ? '✓' : '-';
+  }
+
+  const score = Object.entries(profile.result.techStack[key])
+    .find(([name]) => name.toLowerCase() === lower)?.[1];
+  return score !== undefined ? String(Math.round(score * 100) / 100) : '-';
+}
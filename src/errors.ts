@@ -0,0 +1,23 @@
+import { AnalysisStatus } from './types.js';
+
+/**
+ * 分析状況を伴うプラットフォームのエラー
+ *
+ * PersonAnalyzerはこのエラーのstatusをそのままプラットフォームの分析状況として報告する
+ */
+export class PlatformError extends Error {
+  constructor(
+    public readonly status: AnalysisStatus,
+    message: string
+  ) {
+    super(message);
+    this.name = 'PlatformError';
+  }
+}
+
+/**
+ * HTTPクライアント（axios・Octokit）のエラーが404かどうかを判定
+ */
+export function isNotFound(error: any): boolean {
+  return error?.status === 404 || error?.response?.status === 404;
+}
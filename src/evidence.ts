@@ -0,0 +1,113 @@
+import { Evidence, TechTimeline } from './types.js';
+import { buildTimeline } from './timeline.js';
+
+/**
+ * 1つの項目に保持する根拠の最大件数
+ */
+export const MAX_EVIDENCE_PER_ENTRY = 5;
+
+/**
+ * 根拠として保持する抜粋の最大文字数
+ */
+const MAX_SNIPPET_LENGTH = 120;
+
+/**
+ * 人となりの項目の根拠のキー
+ */
+export const TraitField = {
+  INTERESTS: 'interests',
+  ACTIVITIES: 'activities',
+  STYLE: 'communication.style',
+  FREQUENCY: 'communication.frequency',
+  ENGAGEMENT: 'communication.engagement',
+  WORK_STYLE: 'workStyle',
+} as const;
+
+/**
+ * 項目（技術名や人となりのフィールド）ごとに根拠を集める
+ *
+ * 日付のわかる根拠は、保持する件数の上限とは別にURLごとの日付を記録し、利用時期の集計に使う
+ */
+export class EvidenceCollector {
+  private entries = new Map<string, Evidence[]>();
+  private dates = new Map<string, Map<string, string>>();
+  private platform: string;
+
+  constructor(platform: string) {
+    this.platform = platform;
+  }
+
+  /**
+   * 根拠を追加（同じURLと抜粋の組み合わせは1回だけ記録する）
+   */
+  public add(key: string, url: string, snippet?: string, date?: string | null): void {
+    const isoDate = date && !isNaN(new Date(date).getTime()) ? new Date(date).toISOString() : undefined;
+    if (isoDate) {
+      const dates = this.dates.get(key) ?? new Map<string, string>();
+      dates.set(url, isoDate);
+      this.dates.set(key, dates);
+    }
+
+    const evidence = this.entries.get(key) ?? [];
+    if (evidence.length >= MAX_EVIDENCE_PER_ENTRY) return;
+
+    const trimmed = snippet ? truncate(snippet.replace(/\s+/g, ' ').trim()) : undefined;
+    if (evidence.some(e => e.url === url && e.snippet === trimmed)) return;
+
+    evidence.push({ platform: this.platform, url, ...(trimmed && { snippet: trimmed }), ...(isoDate && { date: isoDate }) });
+    this.entries.set(key, evidence);
+  }
+
+  /**
+   * 集めた根拠を項目ごとのオブジェクトに変換
+   */
+  public toRecord(): Record<string, Evidence[]> {
+    return Object.fromEntries(this.entries);
+  }
+
+  /**
+   * 日付のわかる根拠から項目ごとの利用時期を求める（同じURLは1回として数える）
+   */
+  public toTimeline(): Record<string, TechTimeline> {
+    const timelines: Record<string, TechTimeline> = {};
+    for (const [key, dates] of this.dates) {
+      const timeline = buildTimeline(Array.from(dates.values()));
+      if (timeline) timelines[key] = timeline;
+    }
+    return timelines;
+  }
+}
+
+/**
+ * テキスト中のキーワードの前後を抜き出す（見つからなければ先頭を使う）
+ */
+export function excerpt(text: string, keyword: string, radius: number = 40): string {
+  const index = text.toLowerCase().indexOf(keyword.toLowerCase());
+  if (index < 0) return truncate(text);
+
+  const start = Math.max(0, index - radius);
+  const end = Math.min(text.length, index + keyword.length + radius);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * 複数のプラットフォームの根拠を項目ごとにまとめる
+ */
+export function mergeEvidence(records: (Record<string, Evidence[]> | undefined)[]): Record<string, Evidence[]> {
+  const merged: Record<string, Evidence[]> = {};
+
+  for (const record of records) {
+    for (const [key, evidence] of Object.entries(record ?? {})) {
+      merged[key] = [...(merged[key] ?? []), ...evidence];
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * 抜粋を最大文字数に切り詰める
+ */
+function truncate(text: string): string {
+  return text.length > MAX_SNIPPET_LENGTH ? `${text.slice(0, MAX_SNIPPET_LENGTH)}…` : text;
+}
@@ -3,7 +3,7 @@
 /**
  * How Person MCP Server
  * 
- * GitHub、X（Twitter）、SpeakerDeck、ブログのURLから
+ * GitHub、GitLab、X（Twitter）、SpeakerDeck、ブログ、Zenn、QiitaのURLから
  * その人の技術スタックや人となりを分析するMCPサーバー
  */
 
@@ -11,22 +11,331 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
   ErrorCode,
   McpError,
+  ProgressToken,
 } from "@modelcontextprotocol/sdk/types.js";
-import { PersonAnalyzer } from "./analyzer.js";
-import { AnalysisRequest } from "./types.js";
+import { AnalysisProgress, PersonAnalyzer } from "./analyzer.js";
+import { FileCache, MemoryCache } from "./cache.js";
+import {
+  formatProfileMarkdown,
+  parseProfileUri,
+  profileUri,
+  ProfileStore,
+  toStructuredAnalysis,
+  toStructuredResult,
+} from "./profiles.js";
+import { findPromptTemplate, PROMPT_TEMPLATES } from "./prompts.js";
+import { comparePersons, formatComparisonTable } from "./compare.js";
+import { analyzeTeam, formatTeamReport } from "./team.js";
+import { createDefaultRegistry } from "./registry.js";
+import { GitHubService } from "./services/github.js";
+import { PlatformError } from "./errors.js";
+import { AnalysisRequest, AnalysisResult, AnalysisStatus, OutputFormat, Platform } from "./types.js";
 
 // 環境変数からAPIトークンを取得
 const GITHUB_TOKEN = process.env.GITHUB_TOKEN;
+const GITLAB_URL = process.env.GITLAB_URL;
+const GITLAB_TOKEN = process.env.GITLAB_TOKEN;
 const TWITTER_TOKEN = process.env.TWITTER_TOKEN;
+const QIITA_TOKEN = process.env.QIITA_TOKEN;
+
+// ブログのクロール設定（未指定の場合はデフォルト値）
+const BLOG_CRAWL_MAX_PAGES = process.env.BLOG_CRAWL_MAX_PAGES;
+const BLOG_CRAWL_MAX_DEPTH = process.env.BLOG_CRAWL_MAX_DEPTH;
+const BLOG_CRAWL_DELAY_MS = process.env.BLOG_CRAWL_DELAY_MS;
+const BLOG_CRAWL_TIME_BUDGET_MS = process.env.BLOG_CRAWL_TIME_BUDGET_MS;
+
+// レート制限に達した場合に解除を待つ最大時間（ミリ秒）
+const RATE_LIMIT_MAX_WAIT_MS = process.env.RATE_LIMIT_MAX_WAIT_MS;
+
+// 分析の制限時間（ミリ秒）
+const PLATFORM_TIMEOUT_MS = process.env.PLATFORM_TIMEOUT_MS;
+const ANALYSIS_TIMEOUT_MS = process.env.ANALYSIS_TIMEOUT_MS;
+
+// 分析結果のキャッシュ設定（ディレクトリ指定時はディスクに保存し、再起動後も再利用する）
+const CACHE_DIR = process.env.CACHE_DIR;
+const CACHE_TTL_MS = process.env.CACHE_TTL_MS;
+
+// 技術スタックを統合するときのプラットフォームごとの重み（「github=1,twitter=0.5」の形式）
+const PLATFORM_WEIGHTS = process.env.PLATFORM_WEIGHTS;
+
+/**
+ * 「github=1,twitter=0.5」の形式の重みを解析（不正な項目は無視する）
+ */
+function parsePlatformWeights(value: string): Record<string, number> {
+  const weights: Record<string, number> = {};
+
+  for (const entry of value.split(",")) {
+    const [platform, weight] = entry.split("=").map(part => part.trim());
+    if (!platform || !weight || !Number.isFinite(Number(weight)) || Number(weight) < 0) {
+      console.error(`PLATFORM_WEIGHTSの項目が不正なため無視します: ${entry}`);
+      continue;
+    }
+    weights[platform] = Number(weight);
+  }
+
+  return weights;
+}
+
+// 分析サービスのレジストリを作成
+const registry = createDefaultRegistry({
+  githubToken: GITHUB_TOKEN,
+  gitlabUrl: GITLAB_URL,
+  gitlabToken: GITLAB_TOKEN,
+  twitterToken: TWITTER_TOKEN,
+  qiitaToken: QIITA_TOKEN,
+  blogCrawler: {
+    ...(BLOG_CRAWL_MAX_PAGES && { maxPages: Number(BLOG_CRAWL_MAX_PAGES) }),
+    ...(BLOG_CRAWL_MAX_DEPTH && { maxDepth: Number(BLOG_CRAWL_MAX_DEPTH) }),
+    ...(BLOG_CRAWL_DELAY_MS && { delayMs: Number(BLOG_CRAWL_DELAY_MS) }),
+    // クロールの持ち時間は、未指定の場合はプラットフォームの制限時間の2/3とする
+    ...(BLOG_CRAWL_TIME_BUDGET_MS
+      ? { timeBudgetMs: Number(BLOG_CRAWL_TIME_BUDGET_MS) }
+      : PLATFORM_TIMEOUT_MS && { timeBudgetMs: Number(PLATFORM_TIMEOUT_MS) * 2 / 3 }),
+  },
+  rateLimit: {
+    ...(RATE_LIMIT_MAX_WAIT_MS && { maxWaitMs: Number(RATE_LIMIT_MAX_WAIT_MS) }),
+  },
+});
 
 // PersonAnalyzerのインスタンスを作成
-const analyzer = new PersonAnalyzer(GITHUB_TOKEN, TWITTER_TOKEN);
+const analyzer = new PersonAnalyzer(
+  registry,
+  {
+    ...(PLATFORM_TIMEOUT_MS && { platformTimeoutMs: Number(PLATFORM_TIMEOUT_MS) }),
+    ...(ANALYSIS_TIMEOUT_MS && { overallTimeoutMs: Number(ANALYSIS_TIMEOUT_MS) }),
+    ...(CACHE_TTL_MS && { cacheTtlMs: Number(CACHE_TTL_MS) }),
+    ...(PLATFORM_WEIGHTS && { platformWeights: parsePlatformWeights(PLATFORM_WEIGHTS) }),
+  },
+  CACHE_DIR ? new FileCache(CACHE_DIR) : new MemoryCache()
+);
 
-// 最近の分析結果をキャッシュ（オプション）
-const analysisCache = new Map<string, any>();
+// 分析済みの人物（MCPリソースとして公開）
+const profiles = new ProfileStore();
+
+// compare-personsツールで一度に比較できる人数
+const MAX_COMPARE_PERSONS = 5;
+
+// analyze-teamツールで分析するメンバーの上限と、同時に分析する人数
+const MAX_TEAM_MEMBERS = 30;
+const TEAM_CONCURRENCY = 3;
+
+/**
+ * how-personツールの引数
+ */
+interface HowPersonArguments {
+  output_format?: OutputFormat;
+  force_refresh?: boolean;
+  [platform: string]: unknown;
+}
+
+/**
+ * compare-personsツールの引数
+ */
+interface ComparePersonsArguments {
+  persons?: unknown;
+  output_format?: OutputFormat;
+  force_refresh?: boolean;
+}
+
+/**
+ * analyze-teamツールの引数
+ */
+interface AnalyzeTeamArguments {
+  github_org?: unknown;
+  members?: unknown;
+  output_format?: OutputFormat;
+  force_refresh?: boolean;
+}
+
+/**
+ * 分析結果を指定された出力形式のコンテンツに変換
+ *
+ * リソースのURIは、JSONではresourceUriとして含め、テキストでは要約の末尾に添える（JSONの項目にはJSON以外を混ぜない）
+ */
+function formatResult(result: AnalysisResult, format: OutputFormat, resourceUri: string) {
+  const json = JSON.stringify({ ...toStructuredResult(result), resourceUri }, null, 2);
+  const summary = `${result.summary}\nこの分析結果はリソース ${resourceUri} として参照できます`;
+
+  switch (format) {
+    case OutputFormat.JSON:
+      return [{ type: "text", text: json }];
+    case OutputFormat.BOTH:
+      return [
+        { type: "text", text: summary },
+        { type: "text", text: json },
+      ];
+    default:
+      return [{ type: "text", text: summary }];
+  }
+}
+
+/**
+ * 比較やチームの集計結果を指定された出力形式のコンテンツに変換
+ */
+function formatReport(report: string, structured: unknown, format: OutputFormat) {
+  const json = JSON.stringify(structured, null, 2);
+
+  switch (format) {
+    case OutputFormat.JSON:
+      return [{ type: "text", text: json }];
+    case OutputFormat.BOTH:
+      return [
+        { type: "text", text: report },
+        { type: "text", text: json },
+      ];
+    default:
+      return [{ type: "text", text: report }];
+  }
+}
+
+/**
+ * ツール共通の出力形式とキャッシュの指定を検証
+ */
+function validateToolOptions(outputFormat: unknown, forceRefresh: unknown): void {
+  if (!Object.values(OutputFormat).includes(outputFormat as OutputFormat)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      "output_formatが無効です。text、json、bothのいずれかを指定してください"
+    );
+  }
+  
+  if (typeof forceRefresh !== "boolean") {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      "force_refreshはtrueまたはfalseで指定してください"
+    );
+  }
+}
+
+/**
+ * 進捗トークンに進捗を通知するコールバックを作成（トークンがなければundefined）
+ *
+ * 複数の分析で共有しても進捗値が増え続けるよう、通知した回数を進捗値にする
+ */
+function createProgressNotifier(
+  progressToken: ProgressToken | undefined
+): ((progress: AnalysisProgress) => void) | undefined {
+  if (progressToken === undefined) return undefined;
+  
+  let progress = 0;
+  return ({ message }) => {
+    server.notification({
+      method: "notifications/progress",
+      params: { progressToken, progress: ++progress, message },
+    }).catch((error) => console.error("進捗の通知に失敗しました:", error));
+  };
+}
+
+/**
+ * ツールやプロンプトの引数からプロフィールURLを取り出して検証
+ */
+function parseAnalysisRequest(args: Record<string, unknown>): AnalysisRequest {
+  const services = registry.list();
+  
+  // 少なくとも1つのURLが必要
+  if (!services.some(service => args[service.platform])) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `少なくとも1つのURLを指定してください（${services.map(service => service.label).join("、")}）`
+    );
+  }
+  
+  // URLの形式を検証
+  const analysisRequest: AnalysisRequest = {};
+  for (const service of services) {
+    const url = args[service.platform];
+    if (url === undefined || url === "") continue;
+    
+    if (typeof url !== "string" || !service.validateUrl(url)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `${service.label}のURLが無効です。例: ${service.urlExample}`
+      );
+    }
+    analysisRequest[service.platform] = url;
+  }
+  
+  return analysisRequest;
+}
+
+/**
+ * 分析を実行し、分析済みの人物として保存
+ */
+async function runAnalysis(
+  analysisRequest: AnalysisRequest,
+  options: { signal: AbortSignal; forceRefresh?: boolean; onProgress?: (progress: AnalysisProgress) => void }
+) {
+  const { signal, forceRefresh, onProgress } = options;
+  
+  try {
+    // 分析の実行（プラットフォームごとの結果はアナライザー側でキャッシュされる）
+    const result = await analyzer.analyze(analysisRequest, { signal, forceRefresh, onProgress });
+    
+    // 分析済みの人物として保存し、リソース一覧の変更を通知
+    const profile = profiles.save(analysisRequest, result);
+    server.sendResourceListChanged().catch((error) =>
+      console.error("リソース一覧の変更通知に失敗しました:", error)
+    );
+    
+    return profile;
+  } catch (error) {
+    console.error("分析エラー:", error);
+    throw new McpError(
+      ErrorCode.InternalError,
+      `分析中にエラーが発生しました: ${error}`
+    );
+  }
+}
+
+/**
+ * GitHubのOrganization名またはURLからOrganization名を取り出す
+ */
+function parseOrganization(githubOrg: unknown): string {
+  const match = typeof githubOrg === "string" &&
+    githubOrg.match(/^(?:https?:\/\/(?:www\.)?github\.com\/)?([\w.-]+)\/?$/);
+  if (!match) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      "github_orgが無効です。例: https://github.com/orgname"
+    );
+  }
+  return match[1];
+}
+
+/**
+ * GitHubのOrganizationのメンバーごとの分析リクエストを作成
+ */
+async function listOrganizationRequests(org: string, signal: AbortSignal): Promise<AnalysisRequest[]> {
+  const github = registry.get(Platform.GITHUB);
+  if (!(github instanceof GitHubService)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      "GitHubの分析サービスが登録されていないため、Organizationを分析できません"
+    );
+  }
+  
+  try {
+    const logins = await github.listOrganizationMembers(org, MAX_TEAM_MEMBERS, signal);
+    return logins.map((login) => ({ [Platform.GITHUB]: `https://github.com/${login}` }));
+  } catch (error) {
+    if (error instanceof PlatformError && error.status === AnalysisStatus.NOT_FOUND) {
+      throw new McpError(ErrorCode.InvalidParams, error.message);
+    }
+    console.error("メンバー取得エラー:", error);
+    throw new McpError(
+      ErrorCode.InternalError,
+      `メンバーの取得中にエラーが発生しました: ${error}`
+    );
+  }
+}
 
 /**
  * MCPサーバーの作成
@@ -39,6 +348,10 @@ const server = new Server(
   {
     capabilities: {
       tools: {},
+      resources: {
+        listChanged: true,
+      },
+      prompts: {},
     },
   }
 );
@@ -47,38 +360,81 @@ const server = new Server(
  * 利用可能なツールの一覧を提供するハンドラー
  */
 server.setRequestHandler(ListToolsRequestSchema, async () => {
+  // 各ツール共通の出力形式とキャッシュの指定
+  const optionProperties = {
+    output_format: {
+      type: "string",
+      enum: Object.values(OutputFormat),
+      description: "出力形式（text: 要約テキスト、json: 構造化された分析結果、both: 両方）。デフォルトはtext",
+    },
+    force_refresh: {
+      type: "boolean",
+      description: "trueの場合はキャッシュを使わずに各プラットフォームのデータを再取得する。デフォルトはfalse",
+    },
+  };
+  
   return {
     tools: [
       {
         name: "how-person",
-        description: "GitHub、X（Twitter）、SpeakerDeck、ブログのURLからその人の技術スタックや人となりを分析",
+        description: `${registry.list().map(service => service.label).join("、")}のURLからその人の技術スタックや人となりを分析`,
         inputSchema: {
           type: "object",
           properties: {
-            github: {
-              type: "string",
-              description: "GitHubのプロフィールURL（例: https://github.com/username）",
-            },
-            twitter: {
-              type: "string",
-              description: "X（Twitter）のプロフィールURL（例: https://twitter.com/username または https://x.com/username）",
+            ...registry.toSchemaProperties(),
+            ...optionProperties,
+          },
+          // 少なくとも1つのURLが必要
+          anyOf: registry.list().map(service => ({ required: [service.platform] })),
+        },
+      },
+      {
+        name: "compare-persons",
+        description: "複数人のプロフィールを分析し、共通・固有の言語、フレームワーク、ツール、興味・関心とコミュニケーションの傾向を比較",
+        inputSchema: {
+          type: "object",
+          properties: {
+            persons: {
+              type: "array",
+              minItems: 2,
+              maxItems: MAX_COMPARE_PERSONS,
+              description: "比較する人ごとのプロフィールURL（how-personツールと同じ形式）",
+              items: {
+                type: "object",
+                properties: registry.toSchemaProperties(),
+                anyOf: registry.list().map(service => ({ required: [service.platform] })),
+              },
             },
-            speakerdeck: {
+            ...optionProperties,
+          },
+          required: ["persons"],
+        },
+      },
+      {
+        name: "analyze-team",
+        description: "GitHubのOrganizationまたはメンバーの一覧を分析し、チーム全体の技術スタックのカバレッジ、1人しか使っていない技術、共通の関心をまとめる",
+        inputSchema: {
+          type: "object",
+          properties: {
+            github_org: {
               type: "string",
-              description: "SpeakerDeckのプロフィールURL（例: https://speakerdeck.com/username）",
+              description: `GitHubのOrganization名またはURL（例: https://github.com/orgname）。メンバーのGitHubプロフィールを最大${MAX_TEAM_MEMBERS}人分析する`,
             },
-            blog: {
-              type: "string",
-              description: "ブログのURL（例: https://example.com/blog）",
+            members: {
+              type: "array",
+              minItems: 1,
+              maxItems: MAX_TEAM_MEMBERS,
+              description: "メンバーごとのプロフィールURL（how-personツールと同じ形式）",
+              items: {
+                type: "object",
+                properties: registry.toSchemaProperties(),
+                anyOf: registry.list().map(service => ({ required: [service.platform] })),
+              },
             },
+            ...optionProperties,
           },
-          // 少なくとも1つのURLが必要
-          anyOf: [
-            { required: ["github"] },
-            { required: ["twitter"] },
-            { required: ["speakerdeck"] },
-            { required: ["blog"] },
-          ],
+          // github_orgとmembersのどちらか一方が必要
+          oneOf: [{ required: ["github_org"] }, { required: ["members"] }],
         },
       },
     ],
@@ -88,79 +444,120 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
 /**
  * ツールの実行ハンドラー
  */
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
   switch (request.params.name) {
     case "how-person": {
-      const args = request.params.arguments as AnalysisRequest;
+      const {
+        output_format: outputFormat = OutputFormat.TEXT,
+        force_refresh: forceRefresh = false,
+        ...args
+      } = (request.params.arguments ?? {}) as HowPersonArguments;
+      
+      const analysisRequest = parseAnalysisRequest(args);
+      validateToolOptions(outputFormat, forceRefresh);
+      
+      const profile = await runAnalysis(analysisRequest, {
+        signal: extra.signal,
+        forceRefresh,
+        onProgress: createProgressNotifier(request.params._meta?.progressToken),
+      });
+      
+      // 結果を返す（リソースとして参照するためのURIも添える）
+      return {
+        content: formatResult(profile.result, outputFormat, profileUri(profile.id)),
+      };
+    }
+    
+    case "compare-persons": {
+      const {
+        persons,
+        output_format: outputFormat = OutputFormat.TEXT,
+        force_refresh: forceRefresh = false,
+      } = (request.params.arguments ?? {}) as ComparePersonsArguments;
       
-      // 少なくとも1つのURLが必要
-      if (!args.github && !args.twitter && !args.speakerdeck && !args.blog) {
+      if (!Array.isArray(persons) || persons.length < 2 || persons.length > MAX_COMPARE_PERSONS) {
         throw new McpError(
           ErrorCode.InvalidParams,
-          "少なくとも1つのURLを指定してください（GitHub、Twitter/X、SpeakerDeck、ブログ）"
+          `personsには2〜${MAX_COMPARE_PERSONS}人分のプロフィールURLを指定してください`
         );
       }
+      const analysisRequests = persons.map((person) => parseAnalysisRequest(person ?? {}));
+      validateToolOptions(outputFormat, forceRefresh);
+      
+      // 全員を並行して分析（レート制限はプラットフォームごとに共有される）
+      const onProgress = createProgressNotifier(request.params._meta?.progressToken);
+      const compared = await Promise.all(
+        analysisRequests.map((analysisRequest, index) =>
+          runAnalysis(analysisRequest, {
+            signal: extra.signal,
+            forceRefresh,
+            onProgress: onProgress && ((progress) => onProgress({ ...progress, message: `${index + 1}人目 ${progress.message}` })),
+          })
+        )
+      );
+      
+      const comparison = comparePersons(compared);
+      return {
+        content: formatReport(formatComparisonTable(comparison, compared), comparison, outputFormat),
+      };
+    }
+    
+    case "analyze-team": {
+      const {
+        github_org: githubOrg,
+        members,
+        output_format: outputFormat = OutputFormat.TEXT,
+        force_refresh: forceRefresh = false,
+      } = (request.params.arguments ?? {}) as AnalyzeTeamArguments;
       
-      // URLの形式を検証
-      if (args.github && !args.github.match(/^https?:\/\/(www\.)?github\.com\/[^\/]+\/?$/)) {
+      if ((githubOrg === undefined) === (members === undefined)) {
         throw new McpError(
           ErrorCode.InvalidParams,
-          "GitHubのURLが無効です。例: https://github.com/username"
+          "github_orgとmembersのどちらか一方を指定してください"
         );
       }
-      
-      if (args.twitter && !args.twitter.match(/^https?:\/\/(www\.)?(twitter|x)\.com\/[^\/]+\/?$/)) {
+      const org = githubOrg !== undefined ? parseOrganization(githubOrg) : undefined;
+      if (members !== undefined && (!Array.isArray(members) || members.length === 0 || members.length > MAX_TEAM_MEMBERS)) {
         throw new McpError(
           ErrorCode.InvalidParams,
-          "X（Twitter）のURLが無効です。例: https://twitter.com/username または https://x.com/username"
+          `membersには1〜${MAX_TEAM_MEMBERS}人分のプロフィールURLを指定してください`
         );
       }
+      validateToolOptions(outputFormat, forceRefresh);
       
-      if (args.speakerdeck && !args.speakerdeck.match(/^https?:\/\/(www\.)?speakerdeck\.com\/[^\/]+\/?$/)) {
+      const analysisRequests = org !== undefined
+        ? await listOrganizationRequests(org, extra.signal)
+        : (members as Record<string, unknown>[]).map((member) => parseAnalysisRequest(member ?? {}));
+      if (analysisRequests.length === 0) {
         throw new McpError(
           ErrorCode.InvalidParams,
-          "SpeakerDeckのURLが無効です。例: https://speakerdeck.com/username"
+          `${org}には参照できるメンバーがいません`
         );
       }
       
-      // キャッシュキーの生成
-      const cacheKey = JSON.stringify(args);
-      
-      // キャッシュにあればそれを返す
-      if (analysisCache.has(cacheKey)) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: analysisCache.get(cacheKey),
-            },
-          ],
-        };
+      // 外部APIへの負荷を抑えるため、数人ずつ分析する
+      const onProgress = createProgressNotifier(request.params._meta?.progressToken);
+      const analyzed = [];
+      for (let start = 0; start < analysisRequests.length; start += TEAM_CONCURRENCY) {
+        const batch = analysisRequests.slice(start, start + TEAM_CONCURRENCY);
+        analyzed.push(...await Promise.all(
+          batch.map((analysisRequest, offset) =>
+            runAnalysis(analysisRequest, {
+              signal: extra.signal,
+              forceRefresh,
+              onProgress: onProgress && ((progress) => onProgress({
+                ...progress,
+                message: `${start + offset + 1}/${analysisRequests.length}人目 ${progress.message}`,
+              })),
+            })
+          )
+        ));
       }
       
-      try {
-        // 分析の実行
-        const result = await analyzer.analyze(args);
-        
-        // 結果をキャッシュに保存
-        analysisCache.set(cacheKey, result.summary);
-        
-        // 結果を返す
-        return {
-          content: [
-            {
-              type: "text",
-              text: result.summary,
-            },
-          ],
-        };
-      } catch (error) {
-        console.error("分析エラー:", error);
-        throw new McpError(
-          ErrorCode.InternalError,
-          `分析中にエラーが発生しました: ${error}`
-        );
-      }
+      const team = analyzeTeam(analyzed);
+      return {
+        content: formatReport(formatTeamReport(team, org ?? "チーム"), team, outputFormat),
+      };
     }
     
     default:
@@ -171,6 +568,156 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   }
 });
 
+/**
+ * 分析済みの人物をリソースとして一覧するハンドラー
+ */
+server.setRequestHandler(ListResourcesRequestSchema, async () => {
+  return {
+    resources: profiles.list().flatMap((profile) => [
+      {
+        uri: profileUri(profile.id),
+        name: `${profile.name}の分析結果`,
+        description: `${profile.analyzedAt}に分析した技術スタックと人となり（JSON）`,
+        mimeType: "application/json",
+      },
+      {
+        uri: profileUri(profile.id, { type: "markdown" }),
+        name: `${profile.name}の分析結果（Markdown）`,
+        description: `${profile.analyzedAt}に分析した技術スタックと人となり（Markdown）`,
+        mimeType: "text/markdown",
+      },
+      ...profile.result.platforms.map((analysis) => ({
+        uri: profileUri(profile.id, { type: "platform", platform: analysis.platform }),
+        name: `${profile.name}の${registry.get(analysis.platform)?.label ?? analysis.platform}分析結果`,
+        description: analysis.url,
+        mimeType: "application/json",
+      })),
+    ]),
+  };
+});
+
+/**
+ * リソースのURIテンプレートを提供するハンドラー
+ */
+server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+  return {
+    resourceTemplates: [
+      {
+        uriTemplate: "how-person://profile/{id}",
+        name: "分析結果（JSON）",
+        mimeType: "application/json",
+      },
+      {
+        uriTemplate: "how-person://profile/{id}.md",
+        name: "分析結果（Markdown）",
+        mimeType: "text/markdown",
+      },
+      {
+        uriTemplate: "how-person://profile/{id}/{platform}",
+        name: "プラットフォームごとの分析結果（JSON）",
+        mimeType: "application/json",
+      },
+    ],
+  };
+});
+
+/**
+ * リソースの読み取りハンドラー
+ */
+server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+  const { uri } = request.params;
+  const parsed = parseProfileUri(uri);
+  const profile = parsed && profiles.get(parsed.id);
+  
+  if (!parsed || !profile) {
+    throw new McpError(ErrorCode.InvalidParams, `未知のリソース: ${uri}`);
+  }
+  
+  switch (parsed.view.type) {
+    case "markdown":
+      return {
+        contents: [{ uri, mimeType: "text/markdown", text: formatProfileMarkdown(profile, registry) }],
+      };
+    
+    case "platform": {
+      const { platform } = parsed.view;
+      const analysis = profile.result.platforms.find((analysis) => analysis.platform === platform);
+      if (!analysis) {
+        throw new McpError(ErrorCode.InvalidParams, `未知のリソース: ${uri}`);
+      }
+      return {
+        contents: [{ uri, mimeType: "application/json", text: JSON.stringify(toStructuredAnalysis(analysis), null, 2) }],
+      };
+    }
+    
+    default:
+      return {
+        contents: [{ uri, mimeType: "application/json", text: JSON.stringify(toStructuredResult(profile.result), null, 2) }],
+      };
+  }
+});
+
+/**
+ * 利用可能なプロンプトの一覧を提供するハンドラー
+ */
+server.setRequestHandler(ListPromptsRequestSchema, async () => {
+  return {
+    prompts: PROMPT_TEMPLATES.map((template) => ({
+      name: template.name,
+      description: template.description,
+      arguments: [
+        // プロフィールURLは少なくとも1つ必要（個々のURLは任意）
+        ...registry.list().map((service) => ({
+          name: service.platform,
+          description: service.description,
+        })),
+        ...template.arguments,
+      ],
+    })),
+  };
+});
+
+/**
+ * プロンプトの取得ハンドラー（プロフィールを分析して結果を埋め込む）
+ */
+server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
+  const template = findPromptTemplate(request.params.name);
+  if (!template) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `未知のプロンプト: ${request.params.name}`
+    );
+  }
+  
+  const args = request.params.arguments ?? {};
+  for (const argument of template.arguments) {
+    if (argument.required && !args[argument.name]) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `${argument.name}を指定してください（${argument.description}）`
+      );
+    }
+  }
+  
+  const profile = await runAnalysis(parseAnalysisRequest(args), {
+    signal: extra.signal,
+    onProgress: createProgressNotifier(request.params._meta?.progressToken),
+  });
+  
+  return {
+    description: `${profile.name}: ${template.description}`,
+    messages: [
+      {
+        role: "user",
+        content: {
+          type: "text",
+          text: template.render(profile.result, args),
+        },
+      },
+    ],
+  };
+});
+
 /**
  * サーバーの起動
  */
@@ -0,0 +1,230 @@
+import { createHash } from 'crypto';
+import { AnalysisRequest, AnalysisResult, Evidence, PlatformAnalysis } from './types.js';
+import { PlatformRegistry } from './registry.js';
+import { STATUS_LABELS } from './analyzer.js';
+
+/**
+ * プロフィールリソースのURIの接頭辞
+ */
+export const PROFILE_URI_PREFIX = 'how-person://profile/';
+
+/**
+ * Markdown表現で表示する技術の最大件数
+ */
+const MAX_MARKDOWN_ENTRIES = 10;
+
+/**
+ * Markdown表現で1つの項目に表示する根拠の最大件数
+ */
+const MAX_EVIDENCE_LINKS = 2;
+
+/**
+ * 分析済みの人物
+ */
+export interface AnalyzedProfile {
+  id: string; // 分析対象のURLの組み合わせから生成したID
+  name: string; // 一覧に表示する名前
+  request: AnalysisRequest;
+  result: AnalysisResult;
+  analyzedAt: string; // 分析日時（ISO 8601形式）
+}
+
+/**
+ * プロフィールリソースのURIが指す内容
+ */
+export type ProfileView =
+  | { type: 'json' } // 総合分析結果のJSON
+  | { type: 'markdown' } // 総合分析結果のMarkdown
+  | { type: 'platform'; platform: string }; // プラットフォームごとの分析結果のJSON
+
+/**
+ * 分析済みの人物を保持するストア（MCPリソースとして公開する）
+ */
+export class ProfileStore {
+  private profiles = new Map<string, AnalyzedProfile>();
+  private maxProfiles: number;
+
+  constructor(maxProfiles: number = 100) {
+    this.maxProfiles = maxProfiles;
+  }
+
+  /**
+   * 分析結果を保存（同じURLの組み合わせは最新の結果で置き換える）
+   */
+  public save(request: AnalysisRequest, result: AnalysisResult): AnalyzedProfile {
+    const id = this.createId(request);
+    const profile: AnalyzedProfile = {
+      id,
+      name: this.createName(request),
+      request,
+      result,
+      analyzedAt: new Date().toISOString(),
+    };
+
+    this.profiles.delete(id);
+    this.profiles.set(id, profile);
+
+    // 上限を超えたら最も古い分析結果から削除
+    while (this.profiles.size > this.maxProfiles) {
+      const oldest = this.profiles.keys().next().value;
+      if (oldest === undefined) break;
+      this.profiles.delete(oldest);
+    }
+
+    return profile;
+  }
+
+  /**
+   * IDから分析済みの人物を取得
+   */
+  public get(id: string): AnalyzedProfile | undefined {
+    return this.profiles.get(id);
+  }
+
+  /**
+   * 新しい順に分析済みの人物の一覧を取得
+   */
+  public list(): AnalyzedProfile[] {
+    return Array.from(this.profiles.values()).reverse();
+  }
+
+  /**
+   * URLの組み合わせからIDを生成（入力順によらず同じIDになる）
+   */
+  private createId(request: AnalysisRequest): string {
+    const entries = Object.entries(request)
+      .filter(([, url]) => url)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return createHash('sha256').update(JSON.stringify(entries)).digest('hex').slice(0, 16);
+  }
+
+  /**
+   * 最初に指定されたURLのユーザー名（ブログの場合はドメイン）を表示名にする
+   */
+  private createName(request: AnalysisRequest): string {
+    const url = Object.values(request).find(Boolean);
+    if (!url) return '不明な人物';
+
+    try {
+      const { hostname, pathname } = new URL(url);
+      const segment = pathname.split('/').filter(Boolean)[0];
+      return segment ? segment.replace(/^@/, '') : hostname;
+    } catch (error) {
+      return url;
+    }
+  }
+}
+
+/**
+ * リソースのURIを生成
+ */
+export function profileUri(id: string, view: ProfileView = { type: 'json' }): string {
+  switch (view.type) {
+    case 'markdown':
+      return `${PROFILE_URI_PREFIX}${id}.md`;
+    case 'platform':
+      return `${PROFILE_URI_PREFIX}${id}/${view.platform}`;
+    default:
+      return `${PROFILE_URI_PREFIX}${id}`;
+  }
+}
+
+/**
+ * リソースのURIを解析（プロフィールのURIでなければundefined）
+ */
+export function parseProfileUri(uri: string): { id: string; view: ProfileView } | undefined {
+  const match = uri.match(/^how-person:\/\/profile\/([0-9a-f]+)(\.md|\/([\w-]+))?$/);
+  if (!match) return undefined;
+
+  const [, id, suffix, platform] = match;
+  if (platform) return { id, view: { type: 'platform', platform } };
+  if (suffix === '.md') return { id, view: { type: 'markdown' } };
+  return { id, view: { type: 'json' } };
+}
+
+/**
+ * 構造化出力用に生データを除いた分析結果（生データはサイズが大きいため）
+ */
+export function toStructuredResult(result: AnalysisResult) {
+  return {
+    ...result,
+    platforms: result.platforms.map(toStructuredAnalysis),
+  };
+}
+
+/**
+ * 構造化出力用に生データを除いたプラットフォームごとの分析結果
+ */
+export function toStructuredAnalysis({ rawData, ...analysis }: PlatformAnalysis) {
+  return analysis;
+}
+
+/**
+ * 分析済みの人物をMarkdownに変換
+ */
+export function formatProfileMarkdown(profile: AnalyzedProfile, registry: PlatformRegistry): string {
+  const { result } = profile;
+  const labelOf = (platform: string) => registry.get(platform)?.label ?? platform;
+
+  let markdown = `# ${profile.name}\n\n`;
+  markdown += `分析日時: ${profile.analyzedAt}\n\n`;
+
+  // 分析対象と分析状況
+  markdown += '## 分析対象\n\n';
+  markdown += '| プラットフォーム | URL | 状態 |\n| --- | --- | --- |\n';
+  for (const status of result.statuses) {
+    const state = STATUS_LABELS[status.status] + (status.reason ? `（${status.reason}）` : '');
+    markdown += `| ${labelOf(status.platform)} | ${status.url} | ${state} |\n`;
+  }
+
+  // 技術スタック（スコアの高い順）
+  markdown += '\n## 技術スタック\n';
+  const sections: [string, Record<string, number>][] = [
+    ['言語', result.techStack.languages],
+    ['フレームワーク', result.techStack.frameworks],
+    ['ツール', result.techStack.tools],
+  ];
+  for (const [title, scores] of sections) {
+    const entries = Object.entries(scores)
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, MAX_MARKDOWN_ENTRIES);
+    if (entries.length === 0) continue;
+
+    markdown += `\n### ${title}\n\n| 名前 | スコア | 根拠 |\n| --- | --- | --- |\n`;
+    for (const [name, score] of entries) {
+      markdown += `| ${name} | ${Math.round(score * 100) / 100} | ${formatEvidenceLinks(result.techStack.evidence?.[name])} |\n`;
+    }
+  }
+  if (result.techStack.topics.length > 0) {
+    markdown += `\n### トピック\n\n${result.techStack.topics.slice(0, 20).join(', ')}\n`;
+  }
+
+  // 人となりの根拠
+  const traitEvidence = Object.entries(result.personality.evidence ?? {});
+  if (traitEvidence.length > 0) {
+    markdown += '\n## 人となりの根拠\n\n| 項目 | 根拠 |\n| --- | --- |\n';
+    for (const [field, evidence] of traitEvidence) {
+      markdown += `| ${field} | ${formatEvidenceLinks(evidence)} |\n`;
+    }
+  }
+
+  // 要約
+  markdown += `\n## 要約\n\n${result.summary.trim()}\n`;
+
+  return markdown;
+}
+
+/**
+ * 根拠をMarkdownの表のセルに収まるリンクの一覧に変換
+ */
+function formatEvidenceLinks(evidence: Evidence[] | undefined): string {
+  if (!evidence || evidence.length === 0) return '-';
+
+  return evidence
+    .slice(0, MAX_EVIDENCE_LINKS)
+    .map(e => {
+      const label = (e.snippet ?? e.url).replace(/[|\[\]]+/g, ' ').replace(/\s+/g, ' ').trim();
+      return `[${label}](${e.url})（${e.platform}）`;
+    })
+    .join('<br>');
+}
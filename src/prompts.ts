@@ -0,0 +1,115 @@
+import { AnalysisResult } from './types.js';
+
+/**
+ * プロンプトの引数（プロフィールURL以外）
+ */
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+/**
+ * 分析結果を埋め込んだプロンプトのテンプレート
+ */
+export interface PromptTemplate {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  render(result: AnalysisResult, args: Record<string, string>): string;
+}
+
+/**
+ * プロンプトに埋め込む分析結果（要約と構造化された技術スタック・人となり）
+ *
+ * 根拠と利用時期は件数に比例して大きくなるため埋め込まない（利用時期の要点は要約に含まれる）
+ */
+function formatProfileSection(result: AnalysisResult): string {
+  const { evidence: techEvidence, timeline, ...techStack } = result.techStack;
+  const { evidence: personalityEvidence, ...personality } = result.personality;
+  const structured = { techStack, personality };
+
+  return [
+    '## 分析結果の要約',
+    '',
+    result.summary.trim(),
+    '',
+    '## 技術スタックと人となり（JSON）',
+    '',
+    '```json',
+    JSON.stringify(structured, null, 2),
+    '```',
+  ].join('\n');
+}
+
+/**
+ * 組み込みのプロンプトテンプレート
+ */
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    name: 'interview_questions',
+    description: 'プロフィールを分析し、採用面接で聞く質問を作成する',
+    arguments: [
+      { name: 'role', description: '募集しているポジション（例: バックエンドエンジニア）' },
+      { name: 'count', description: '作成する質問の数（デフォルトは10）' },
+    ],
+    render: (result, args) => [
+      `以下は候補者の公開プロフィールから分析した技術スタックと人となりです。`,
+      `${args.role ? `「${args.role}」の` : ''}採用面接で聞く質問を${args.count || '10'}個作成してください。`,
+      '',
+      '- 技術的な深掘り、これまでの経験、働き方やコミュニケーションの質問をバランスよく含めてください',
+      '- 各質問には、分析結果のどの内容に基づいているかと、その質問で確かめたいことを添えてください',
+      '- 分析結果は公開情報からの推測にすぎないため、断定せずに本人に確認する聞き方にしてください',
+      '',
+      formatProfileSection(result),
+    ].join('\n'),
+  },
+  {
+    name: 'intro_message',
+    description: 'プロフィールを分析し、初めて連絡するときのメッセージを作成する',
+    arguments: [
+      { name: 'purpose', description: '連絡の目的（例: 勉強会での登壇のお願い、カジュアル面談のお誘い）', required: true },
+      { name: 'sender', description: '送り手の名前や所属' },
+    ],
+    render: (result, args) => [
+      `以下の人物に初めて連絡するメッセージを作成してください。連絡の目的は「${args.purpose}」です。`,
+      ...(args.sender ? [`送り手は「${args.sender}」です。`] : []),
+      '',
+      '- 相手の最近の活動や関心のあるトピックに具体的に触れてください',
+      '- 相手のコミュニケーションスタイルに合わせた文体にしてください',
+      '- 一方的な内容にならないよう、相手にとってのメリットも伝えてください',
+      '',
+      formatProfileSection(result),
+    ].join('\n'),
+  },
+  {
+    name: 'team_fit',
+    description: 'プロフィールを分析し、チームとの相性をレビューする',
+    arguments: [
+      { name: 'team', description: 'チームの説明（技術スタック、開発スタイル、募集の背景など）', required: true },
+    ],
+    render: (result, args) => [
+      '以下の人物と、このチームとの相性をレビューしてください。',
+      '',
+      '## チームの説明',
+      '',
+      args.team,
+      '',
+      '## レビューの観点',
+      '',
+      '- 技術スタックの重なりと、チームに新たにもたらせる技術',
+      '- チームで必要だが分析結果からは確認できないスキル',
+      '- 働き方やコミュニケーションスタイルの相性',
+      '- 面談で確認すべき点',
+      '',
+      formatProfileSection(result),
+    ].join('\n'),
+  },
+];
+
+/**
+ * 名前からプロンプトテンプレートを取得
+ */
+export function findPromptTemplate(name: string): PromptTemplate | undefined {
+  return PROMPT_TEMPLATES.find(template => template.name === name);
+}
@@ -0,0 +1,147 @@
+import { AnalysisStatus } from './types.js';
+import { PlatformError } from './errors.js';
+
+/**
+ * APIクライアントから読み取ったレート制限の状態
+ */
+export interface RateLimitInfo {
+  remaining?: number; // 残りリクエスト数
+  resetAt?: Date; // 制限が解除される日時
+  retryAfterMs?: number; // 再試行までの待ち時間（Retry-Afterヘッダー）
+}
+
+/**
+ * レート制限時の待機・再試行の設定
+ */
+export interface RateLimiterOptions {
+  maxWaitMs: number; // 待機してよい最大時間（これを超える場合はRateLimitErrorを投げる）
+  maxRetries: number; // 再試行の最大回数
+  baseDelayMs: number; // 解除日時が分からない場合のバックオフの初期値
+}
+
+export const DEFAULT_RATE_LIMITER_OPTIONS: RateLimiterOptions = {
+  maxWaitMs: 60 * 1000,
+  maxRetries: 3,
+  baseDelayMs: 1000,
+};
+
+/**
+ * 待機できる範囲を超えてレート制限に達したことを表すエラー
+ */
+export class RateLimitError extends PlatformError {
+  constructor(
+    public readonly platform: string,
+    public readonly resetAt: Date
+  ) {
+    super(
+      AnalysisStatus.RATE_LIMITED,
+      `${platform}のレート制限に達しました（${resetAt.toISOString()}まで利用できません）`
+    );
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * リソースごとの残りリクエスト数を追跡し、制限時は待機・再試行するレイヤー
+ */
+export class RateLimiter {
+  private platform: string;
+  private inspectError: (error: unknown) => RateLimitInfo | undefined;
+  private options: RateLimiterOptions;
+  private budgets = new Map<string, RateLimitInfo>();
+  
+  /**
+   * @param inspectError エラーがレート制限によるものなら制限の状態を返す関数
+   */
+  constructor(
+    platform: string,
+    inspectError: (error: unknown) => RateLimitInfo | undefined,
+    options: Partial<RateLimiterOptions> = {}
+  ) {
+    this.platform = platform;
+    this.inspectError = inspectError;
+    this.options = { ...DEFAULT_RATE_LIMITER_OPTIONS, ...options };
+  }
+
+  /**
+   * レスポンスヘッダーなどから読み取った残りリクエスト数を記録
+   */
+  public update(resource: string, info: RateLimitInfo): void {
+    if (info.remaining === undefined || !info.resetAt) return;
+    this.budgets.set(resource, info);
+  }
+
+  /**
+   * レート制限を考慮してリクエストを実行
+   *
+   * signalが中断された場合は待機を打ち切り、以降のリクエストを送らない
+   */
+  public async run<T>(request: () => Promise<T>, resource: string = 'default', signal?: AbortSignal): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForBudget(resource, signal);
+      signal?.throwIfAborted();
+      
+      try {
+        return await request();
+      } catch (error) {
+        const info = this.inspectError(error);
+        if (!info) throw error;
+        
+        this.update(resource, { ...info, remaining: 0 });
+        
+        const waitMs = info.retryAfterMs ??
+          (info.resetAt ? info.resetAt.getTime() - Date.now() : this.options.baseDelayMs * 2 ** attempt);
+        
+        if (attempt >= this.options.maxRetries || waitMs > this.options.maxWaitMs) {
+          throw new RateLimitError(this.platform, new Date(Date.now() + Math.max(waitMs, 0)));
+        }
+        
+        console.error(`${this.platform} rate limited, retrying in ${waitMs}ms`);
+        await sleep(waitMs, signal);
+      }
+    }
+  }
+
+  /**
+   * 残りリクエスト数が0の場合は解除まで待機（待てない場合はRateLimitError）
+   */
+  private async waitForBudget(resource: string, signal?: AbortSignal): Promise<void> {
+    const budget = this.budgets.get(resource);
+    if (!budget || budget.remaining !== 0 || !budget.resetAt) return;
+    
+    const waitMs = budget.resetAt.getTime() - Date.now();
+    if (waitMs <= 0) {
+      this.budgets.delete(resource);
+      return;
+    }
+    
+    if (waitMs > this.options.maxWaitMs) {
+      throw new RateLimitError(this.platform, budget.resetAt);
+    }
+    
+    await sleep(waitMs, signal);
+    this.budgets.delete(resource);
+  }
+}
+
+/**
+ * 指定時間待機（signalが中断されたらタイマーを止めて中断の理由で失敗する）
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, Math.max(ms, 0));
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,78 @@
+import { PlatformService } from './types.js';
+import { CrawlerOptions } from './services/crawler.js';
+import { RateLimiterOptions } from './ratelimit.js';
+import { GitHubService } from './services/github.js';
+import { GitLabService } from './services/gitlab.js';
+import { TwitterService } from './services/twitter.js';
+import { SpeakerDeckService } from './services/speakerdeck.js';
+import { BlogService } from './services/blog.js';
+import { ZennService } from './services/zenn.js';
+import { QiitaService } from './services/qiita.js';
+
+/**
+ * 組み込みサービスの設定
+ */
+export interface RegistryOptions {
+  githubToken?: string;
+  gitlabUrl?: string; // セルフホストのGitLabを使う場合のベースURL
+  gitlabToken?: string;
+  twitterToken?: string;
+  qiitaToken?: string;
+  blogCrawler?: Partial<CrawlerOptions>; // ブログのクロール範囲と待ち時間
+  rateLimit?: Partial<RateLimiterOptions>; // GitHub・Twitterのレート制限時の待機設定
+}
+
+/**
+ * 分析サービスのレジストリ
+ */
+export class PlatformRegistry {
+  private services = new Map<string, PlatformService>();
+
+  /**
+   * サービスを登録（同じIDのサービスは置き換える）
+   */
+  public register(service: PlatformService): this {
+    this.services.set(service.platform, service);
+    return this;
+  }
+
+  /**
+   * IDからサービスを取得
+   */
+  public get(platform: string): PlatformService | undefined {
+    return this.services.get(platform);
+  }
+
+  /**
+   * 登録順にサービスの一覧を取得
+   */
+  public list(): PlatformService[] {
+    return Array.from(this.services.values());
+  }
+
+  /**
+   * ツールのinputSchemaに含めるプロパティを生成
+   */
+  public toSchemaProperties(): Record<string, { type: string; description: string }> {
+    return Object.fromEntries(
+      this.list().map(service => [
+        service.platform,
+        { type: 'string', description: service.description },
+      ])
+    );
+  }
+}
+
+/**
+ * 組み込みサービスを登録したレジストリを作成
+ */
+export function createDefaultRegistry(options: RegistryOptions = {}): PlatformRegistry {
+  return new PlatformRegistry()
+    .register(new GitHubService(options.githubToken, options.rateLimit))
+    .register(new GitLabService(options.gitlabUrl, options.gitlabToken))
+    .register(new TwitterService(options.twitterToken, options.rateLimit))
+    .register(new SpeakerDeckService())
+    .register(new BlogService(options.blogCrawler))
+    .register(new ZennService())
+    .register(new QiitaService(options.qiitaToken));
+}
@@ -0,0 +1,111 @@
+import { EvidenceCollector, TraitField } from '../evidence.js';
+
+/**
+ * 反応数を集計する記事（Qiitaの記事はストック数も持つ）
+ */
+export interface ReactedArticle {
+  title: string;
+  url: string;
+  likes: number;
+  stocks?: number;
+}
+
+/**
+ * タグの出現回数を多い順に集計
+ */
+export function countTags(articles: Array<{ tags: string[] }>): Record<string, number> {
+  const counts: Record<string, number> = {};
+
+  for (const article of articles) {
+    for (const tag of article.tags) {
+      counts[tag] = (counts[tag] || 0) + 1;
+    }
+  }
+
+  return Object.fromEntries(
+    Object.entries(counts).sort((a, b) => b[1] - a[1])
+  );
+}
+
+/**
+ * 投稿頻度の推測（月間平均）
+ */
+export function estimatePostFrequency(articles: Array<{ date?: string }>): number {
+  const dates = articles
+    .map(a => a.date ? new Date(a.date) : null)
+    .filter((date): date is Date => date !== null && !isNaN(date.getTime()))
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  if (dates.length < 2) return articles.length / 12; // 日付情報が不足している場合は概算
+
+  const oldestDate = dates[0];
+  const newestDate = dates[dates.length - 1];
+
+  // 月数の計算
+  const monthsDiff = (newestDate.getFullYear() - oldestDate.getFullYear()) * 12 +
+                     (newestDate.getMonth() - oldestDate.getMonth());
+
+  return monthsDiff > 0 ? articles.length / monthsDiff : articles.length;
+}
+
+/**
+ * 1記事あたりの平均いいね数を反応数として求める
+ *
+ * プラットフォーム間で同じ意味の値を平均できるよう、ストック数は反応数に含めず根拠として別に記録する
+ */
+export function calculateEngagement(profileUrl: string, articles: ReactedArticle[], evidence: EvidenceCollector): number {
+  if (articles.length === 0) return 0;
+
+  const avgLikes = articles.reduce((sum, a) => sum + a.likes, 0) / articles.length;
+  evidence.add(TraitField.ENGAGEMENT, profileUrl, `${articles.length}件の記事（平均${Math.round(avgLikes)}いいね）`);
+
+  if (articles.some(a => a.stocks !== undefined)) {
+    const avgStocks = articles.reduce((sum, a) => sum + (a.stocks || 0), 0) / articles.length;
+    evidence.add(TraitField.ENGAGEMENT, profileUrl, `ストック（反応数には含めない）: 平均${Math.round(avgStocks)}件`);
+  }
+
+  return avgLikes;
+}
+
+/**
+ * いいね数・ストック数に基づくコミュニケーションスタイルの分析
+ *
+ * 判定に使った数値と、最も反応の多かった記事を根拠として記録する
+ */
+export function analyzeArticleCommStyle(
+  profileUrl: string,
+  articles: ReactedArticle[],
+  evidence: EvidenceCollector
+): string {
+  if (articles.length === 0) {
+    return '情報不足のため分析できません';
+  }
+
+  // 1記事あたりの平均いいね数・ストック数
+  const hasStocks = articles.some(a => a.stocks !== undefined);
+  const reactions = (a: ReactedArticle) => a.likes + (a.stocks || 0);
+  const describe = (likes: number, stocks: number) => hasStocks ? `${likes}いいね・${stocks}ストック` : `${likes}いいね`;
+
+  const avgLikes = articles.reduce((sum, a) => sum + a.likes, 0) / articles.length;
+  const avgStocks = articles.reduce((sum, a) => sum + (a.stocks || 0), 0) / articles.length;
+  const popular = articles.reduce((best, a) => (reactions(a) > reactions(best) ? a : best));
+  evidence.add(
+    TraitField.STYLE,
+    profileUrl,
+    `${articles.length}件の記事（平均${describe(Math.round(avgLikes), Math.round(avgStocks))}）`
+  );
+  evidence.add(TraitField.STYLE, popular.url, `${popular.title}（${describe(popular.likes, popular.stocks || 0)}）`);
+
+  // スタイル分析
+  if (avgLikes > 100) {
+    return '多くの読者に支持される影響力のある発信者';
+  } else if (hasStocks && avgStocks > avgLikes * 1.5 && avgStocks > 10) {
+    return 'リファレンスとして参照される実用的な解説スタイル';
+  } else if (articles.length > 50) {
+    return '積極的に知識を共有するスタイル';
+  } else if (avgLikes > 20) {
+    return '読者の共感を得る技術解説スタイル';
+  }
+
+  return '自身の学びを記録・共有するスタイル';
+}
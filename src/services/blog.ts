@@ -1,8 +1,75 @@
-import axios from 'axios';
 import * as cheerio from 'cheerio';
-import { Platform, PlatformAnalysis, Personality } from '../types.js';
+import { AnalysisStatus, Platform, PlatformAnalysis, PlatformService, Personality, ProgressReporter } from '../types.js';
+import { isNotFound, PlatformError } from '../errors.js';
+import { BlogCrawler, CrawlerOptions } from './crawler.js';
+import { detectCodeLanguage, extractCodeBlocks } from './codeblocks.js';
+import { estimatePostFrequency } from './articles.js';
+import { EvidenceCollector, excerpt, TraitField } from '../evidence.js';
+import { addTechnology, classifyTerm, findTechnologiesInText, findTopicKeywordsInText, TechStackScores } from '../taxonomy.js';
+
+/**
+ * フィードが置かれていることの多いパス
+ */
+const FEED_PATHS = ['feed', 'rss.xml', 'atom.xml', 'feed.xml', 'index.xml'];
+
+/**
+ * 記事本文が含まれていることの多い要素のセレクタ（優先順）
+ */
+const BODY_SELECTORS = [
+  '.post-content', '.entry-content', '.article-content', '.post-body', '.entry-body',
+  'article', '.post', '.entry', 'main',
+];
+
+/**
+ * タグやカテゴリーへのリンクのセレクタ
+ */
+const TAG_SELECTORS = [
+  '.tags a', '.categories a', '.category a', '.tag a',
+  'a[rel="tag"]', '.post-tags a', '.entry-tags a',
+  '.post-categories a', '.entry-categories a'
+];
+
+/**
+ * フィードの本文がこの文字数未満の場合は要約とみなして記事ページを取得する
+ */
+const SUMMARY_LENGTH_THRESHOLD = 500;
+
+/**
+ * ブログ記事
+ */
+interface BlogArticle {
+  title: string;
+  url: string;
+  content: string; // 本文のテキスト
+  date?: string;
+  html?: string; // 本文のHTML（フィードまたは記事ページから取得した場合）
+  tags?: string[]; // フィードのカテゴリーや記事ページのタグ
+}
+
+export class BlogService implements PlatformService {
+  public readonly platform = Platform.BLOG;
+  public readonly label = 'ブログ';
+  public readonly description = 'ブログのURL（例: https://example.com/blog）';
+  public readonly urlExample = 'https://example.com/blog';
+
+  private crawlerOptions: Partial<CrawlerOptions>;
+  
+  constructor(crawlerOptions: Partial<CrawlerOptions> = {}) {
+    this.crawlerOptions = crawlerOptions;
+  }
+
+  /**
+   * HTTP(S)のURLかどうかを検証
+   */
+  public validateUrl(url: string): boolean {
+    try {
+      const { protocol } = new URL(url);
+      return protocol === 'http:' || protocol === 'https:';
+    } catch (error) {
+      return false;
+    }
+  }
 
-export class BlogService {
   /**
    * ブログのURLからドメインを抽出
    */
@@ -18,13 +85,17 @@ export class BlogService {
   /**
    * ブログの情報を取得して分析
    */
-  public async analyze(url: string): Promise<PlatformAnalysis> {
+  public async analyze(url: string, signal?: AbortSignal, onProgress?: ProgressReporter): Promise<PlatformAnalysis> {
     const domain = this.extractDomain(url);
     
     try {
-      // ブログのHTMLを取得
-      const response = await axios.get(url);
-      const $ = cheerio.load(response.data);
+      // ブログのHTMLを取得（フィードの探索も含め、全てのリクエストをクローラー経由で送る）
+      const crawler = new BlogCrawler(url, this.crawlerOptions, signal);
+      const landing = await crawler.request(url);
+      if (!landing) {
+        throw new PlatformError(AnalysisStatus.FAILED, `robots.txtによりブログの取得が許可されていません: ${url}`);
+      }
+      const $ = cheerio.load(landing.data);
       
       // ブログのタイトルを取得
       const title = $('title').text().trim();
@@ -33,65 +104,37 @@ export class BlogService {
       const description = $('meta[name="description"]').attr('content') || 
                           $('meta[property="og:description"]').attr('content') || '';
       
-      // 記事一覧を取得（プラットフォームによって異なる）
-      const articles: Array<{
-        title: string;
-        url: string;
-        content: string;
-        date?: string;
-      }> = [];
+      // フィードがあればそこから記事を取得し、なければHTMLから推測
+      const feed = await this.discoverFeed($, url, crawler);
+      const feedUrl = feed?.url;
+      const feedArticles = feed?.articles ?? [];
+      if (feed) onProgress?.(`フィードから${feedArticles.length}件の記事を取得`);
       
-      // 一般的な記事セレクタを試す
-      const articleSelectors = [
-        'article', '.post', '.entry', '.blog-post', '.blog-entry',
-        '.post-content', '.entry-content', '.article-content'
-      ];
+      // ページ送りやアーカイブを辿って記事を集め、各記事の本文を取得
+      const articles = await this.collectArticles($, url, feedArticles, crawler, onProgress);
+      await this.fetchArticleBodies(articles, crawler, onProgress);
       
-      // 各セレクタを試して記事を抽出
-      for (const selector of articleSelectors) {
-        $(selector).each((_, element) => {
-          const articleTitle = $(element).find('h1, h2, h3').first().text().trim();
-          const articleUrl = $(element).find('a').attr('href') || '';
-          const articleContent = $(element).text().trim();
-          const articleDate = $(element).find('time').attr('datetime') || 
-                             $(element).find('.date, .time, .published, .post-date').text().trim();
-          
-          if (articleTitle && articleContent) {
-            articles.push({
-              title: articleTitle,
-              url: this.normalizeUrl(articleUrl, url),
-              content: articleContent,
-              date: articleDate
-            });
-          }
-        });
-        
-        // 記事が見つかったら終了
-        if (articles.length > 0) break;
-      }
+      // 記事本文のHTML（本文を取得できなかった場合はページ全体）
+      const $content = articles.some(a => a.html)
+        ? cheerio.load(articles.map(a => `<article>${a.html || ''}</article>`).join(''))
+        : $;
       
-      // 記事が見つからない場合は、リンクとテキストから推測
-      if (articles.length === 0) {
-        $('a').each((_, element) => {
-          const href = $(element).attr('href');
-          const text = $(element).text().trim();
-          
-          // 記事らしきリンクを検出
-          if (href && text && href.includes('/') && text.length > 20 && !href.startsWith('http')) {
-            articles.push({
-              title: text,
-              url: this.normalizeUrl(href, url),
-              content: text
-            });
-          }
-        });
-      }
-      
-      // ブログからトピックを抽出
-      const topics = this.extractTopicsFromBlog($, articles);
+      // ブログからトピックを抽出（検出元の記事を根拠として記録）
+      const techEvidence = new EvidenceCollector(Platform.BLOG);
+      const traitEvidence = new EvidenceCollector(Platform.BLOG);
+      const topics = this.extractTopicsFromBlog($, url, articles, techEvidence);
       
       // 技術スタックの推測
-      const techStack = this.inferTechStack($, articles, topics);
+      const techStack = this.inferTechStack($, url, articles, topics, techEvidence);
+      
+      const topicEvidence = techEvidence.toRecord();
+      for (const topic of Array.from(topics).slice(0, 10)) {
+        const [first] = topicEvidence[topic] ?? [];
+        if (first) traitEvidence.add(TraitField.INTERESTS, first.url, `${topic}: ${first.snippet ?? ''}`);
+      }
+      if (description) {
+        traitEvidence.add(TraitField.ACTIVITIES, url, description);
+      }
       
       // 人となりの分析
       const personality: Partial<Personality> = {
@@ -101,11 +144,12 @@ export class BlogService {
           `${articles.length}件の記事を分析`,
         ].filter(Boolean),
         communication: {
-          style: this.analyzeCommStyle($, articles),
-          frequency: this.estimatePostFrequency(articles),
+          style: this.analyzeCommStyle($content, url, articles, traitEvidence),
+          frequency: estimatePostFrequency(articles),
           topics: Array.from(topics).slice(0, 5),
         },
-        workStyle: this.inferWorkStyle(articles),
+        workStyle: this.inferWorkStyle(articles, traitEvidence),
+        evidence: traitEvidence.toRecord(),
       };
 
       return {
@@ -114,16 +158,313 @@ export class BlogService {
         techStack: {
           topics: Array.from(topics),
           ...techStack,
+          evidence: techEvidence.toRecord(),
+          timeline: techEvidence.toTimeline(),
         },
         personality,
-        rawData: { title, description, domain, articles },
+        rawData: {
+          title,
+          description,
+          domain,
+          feedUrl,
+          articles: articles.map(({ html, ...article }) => article),
+        },
       };
     } catch (error) {
+      if (error instanceof PlatformError) throw error;
+      if (isNotFound(error)) {
+        throw new PlatformError(AnalysisStatus.NOT_FOUND, `ページが見つかりません: ${url}`);
+      }
       console.error('Blog scraping error:', error);
       throw new Error(`ブログ分析中にエラーが発生しました: ${error}`);
     }
   }
 
+  /**
+   * RSS/Atomフィードを探索し、見つかったフィードの記事一覧を返す
+   *
+   * よく使われるパスを試す場合は、判定のために取得した内容をそのまま解析して再取得を避ける。
+   * クローラーは同一オリジンに限定するため、他のドメインで配信されているフィードは使わない
+   */
+  private async discoverFeed(
+    $: cheerio.CheerioAPI,
+    url: string,
+    crawler: BlogCrawler
+  ): Promise<{ url: string; articles: BlogArticle[] } | undefined> {
+    // <link rel="alternate">で宣言されたフィード
+    const declared = $('link[rel="alternate"]').filter((_, element) => {
+      const type = $(element).attr('type') || '';
+      return type === 'application/rss+xml' || type === 'application/atom+xml';
+    }).first().attr('href');
+    
+    if (declared) {
+      const feedUrl = this.normalizeUrl(declared, url);
+      return { url: feedUrl, articles: await this.fetchFeedArticles(feedUrl, crawler) };
+    }
+    
+    // よく使われるフィードのパスを試す
+    const base = url.endsWith('/') ? url : `${url}/`;
+    const candidates = new Set(
+      FEED_PATHS.flatMap(path => [
+        this.normalizeUrl(path, base),
+        this.normalizeUrl(`/${path}`, base),
+      ])
+    );
+    
+    for (const candidate of candidates) {
+      // 存在しないパスは取得できないため無視
+      const response = await crawler.fetchText(candidate);
+      if (response && this.isFeed(response.data)) {
+        return { url: candidate, articles: this.parseFeed(response.data, candidate) };
+      }
+    }
+    
+    return undefined;
+  }
+
+  /**
+   * レスポンスがRSS/Atomフィードかどうかを判定
+   */
+  private isFeed(data: unknown): boolean {
+    return typeof data === 'string' && /<(rss|feed|rdf:RDF)[\s>]/.test(data.slice(0, 2000));
+  }
+
+  /**
+   * フィードを取得して記事一覧に変換
+   */
+  private async fetchFeedArticles(feedUrl: string, crawler: BlogCrawler): Promise<BlogArticle[]> {
+    const response = await crawler.fetchText(feedUrl);
+    if (!response || !this.isFeed(response.data)) {
+      return [];
+    }
+    return this.parseFeed(response.data, feedUrl);
+  }
+
+  /**
+   * RSS 1.0/2.0およびAtomフィードを解析
+   */
+  private parseFeed(xml: string, feedUrl: string): BlogArticle[] {
+    const $ = cheerio.load(xml, { xml: true });
+    const articles: BlogArticle[] = [];
+    
+    // RSS
+    $('item').each((_, element) => {
+      const item = $(element);
+      const html = item.find('content\\:encoded').first().text() || item.find('description').first().text();
+      
+      articles.push({
+        title: item.find('title').first().text().trim(),
+        url: this.normalizeUrl(item.find('link').first().text().trim() || item.attr('rdf:about') || '', feedUrl),
+        content: this.htmlToText(html),
+        date: this.toIsoDate(item.find('pubDate').first().text() || item.find('dc\\:date').first().text()),
+        html,
+        tags: item.find('category').map((_, c) => $(c).text().trim().toLowerCase()).get().filter(Boolean),
+      });
+    });
+    
+    // Atom
+    $('entry').each((_, element) => {
+      const entry = $(element);
+      const link = entry.find('link[rel="alternate"]').first().attr('href') || entry.find('link').first().attr('href') || '';
+      const html = entry.find('content').first().text() || entry.find('summary').first().text();
+      
+      articles.push({
+        title: entry.find('title').first().text().trim(),
+        url: this.normalizeUrl(link, feedUrl),
+        content: this.htmlToText(html),
+        date: this.toIsoDate(entry.find('published').first().text() || entry.find('updated').first().text()),
+        html,
+        tags: entry.find('category').map((_, c) => ($(c).attr('term') || '').trim().toLowerCase()).get().filter(Boolean),
+      });
+    });
+    
+    return articles.filter(a => a.title);
+  }
+
+  /**
+   * HTMLからテキストを抽出
+   */
+  private htmlToText(html: string): string {
+    return cheerio.load(html).root().text().replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * 日付文字列をISO 8601形式に変換（解析できない場合はundefined）
+   */
+  private toIsoDate(value: string): string | undefined {
+    const date = new Date(value.trim());
+    return value.trim() && !isNaN(date.getTime()) ? date.toISOString() : undefined;
+  }
+
+  /**
+   * ページ送り・アーカイブページを辿って記事一覧を収集
+   */
+  private async collectArticles(
+    $: cheerio.CheerioAPI,
+    url: string,
+    feedArticles: BlogArticle[],
+    crawler: BlogCrawler,
+    onProgress?: ProgressReporter
+  ): Promise<BlogArticle[]> {
+    const articles = feedArticles.length > 0 ? [...feedArticles] : this.scrapeArticles($, url);
+    const seen = new Set(articles.map(a => a.url));
+    
+    // 「次のページ」とアーカイブページを起点に、ページ送りを最大深さまで辿る
+    const listingUrls = [this.findNextPageUrl($, url), this.findArchiveUrl($, url)]
+      .filter((listingUrl): listingUrl is string => Boolean(listingUrl));
+    
+    for (const listingUrl of listingUrls) {
+      let pageUrl: string | undefined = listingUrl;
+      
+      for (let depth = 1; pageUrl && depth <= crawler.maxDepth; depth++) {
+        onProgress?.(`記事一覧を巡回中 (${articles.length}件検出): ${pageUrl}`);
+        const $page = await crawler.fetch(pageUrl);
+        if (!$page) break;
+        
+        for (const article of this.scrapeArticles($page, pageUrl)) {
+          if (!seen.has(article.url)) {
+            seen.add(article.url);
+            articles.push(article);
+          }
+        }
+        
+        pageUrl = this.findNextPageUrl($page, pageUrl);
+      }
+    }
+    
+    return articles;
+  }
+
+  /**
+   * 「次のページ」（古い記事一覧）へのリンクを探す
+   */
+  private findNextPageUrl($: cheerio.CheerioAPI, url: string): string | undefined {
+    const declared = $('link[rel="next"], a[rel="next"]').first().attr('href') ||
+                     $('.pagination .next a, a.next, .nav-previous a, .pager-next a').first().attr('href');
+    
+    if (declared) {
+      return this.normalizeUrl(declared, url);
+    }
+    
+    // リンクテキストから推測
+    const link = $('a').filter((_, element) =>
+      /^(次へ|次のページ|古い記事|過去の記事|next|older)/i.test($(element).text().trim())
+    ).first().attr('href');
+    
+    return link ? this.normalizeUrl(link, url) : undefined;
+  }
+
+  /**
+   * アーカイブページへのリンクを探す
+   */
+  private findArchiveUrl($: cheerio.CheerioAPI, url: string): string | undefined {
+    const link = $('a[href$="/archive"], a[href$="/archive/"], a[href$="/archives"], a[href$="/archives/"]')
+      .first().attr('href');
+    return link ? this.normalizeUrl(link, url) : undefined;
+  }
+
+  /**
+   * 各記事のページを取得して本文・日付・タグを補完
+   */
+  private async fetchArticleBodies(
+    articles: BlogArticle[],
+    crawler: BlogCrawler,
+    onProgress?: ProgressReporter
+  ): Promise<void> {
+    for (const [index, article] of articles.entries()) {
+      if (crawler.remaining === 0) break;
+      
+      // フィードに全文が含まれている記事は取得しない
+      if (article.html && article.content.length >= SUMMARY_LENGTH_THRESHOLD) continue;
+      
+      onProgress?.(`記事本文を取得中 (${index + 1}/${articles.length})`);
+      const $page = await crawler.fetch(article.url);
+      if (!$page) continue;
+      
+      const body = BODY_SELECTORS.map(selector => $page(selector).first()).find(element => element.length > 0);
+      if (body) {
+        const content = body.text().replace(/\s+/g, ' ').trim();
+        if (content.length > article.content.length) {
+          article.html = body.html() || '';
+          article.content = content;
+        }
+      }
+      
+      if (!article.date) {
+        article.date = this.toIsoDate(
+          $page('meta[property="article:published_time"]').attr('content') ||
+          $page('time[datetime]').first().attr('datetime') || ''
+        );
+      }
+      
+      const tags = new Set(article.tags);
+      for (const selector of TAG_SELECTORS) {
+        $page(selector).each((_, element) => {
+          const tag = $page(element).text().trim().toLowerCase();
+          if (tag) tags.add(tag);
+        });
+      }
+      article.tags = Array.from(tags);
+    }
+  }
+
+  /**
+   * HTMLから記事一覧を推測（フィードがない場合のフォールバック）
+   */
+  private scrapeArticles($: cheerio.CheerioAPI, url: string): BlogArticle[] {
+    const articles: BlogArticle[] = [];
+    
+    // 一般的な記事セレクタを試す
+    const articleSelectors = [
+      'article', '.post', '.entry', '.blog-post', '.blog-entry',
+      '.post-content', '.entry-content', '.article-content'
+    ];
+    
+    // 各セレクタを試して記事を抽出
+    for (const selector of articleSelectors) {
+      $(selector).each((_, element) => {
+        const articleTitle = $(element).find('h1, h2, h3').first().text().trim();
+        const articleUrl = $(element).find('a').attr('href') || '';
+        const articleContent = $(element).text().trim();
+        const articleDate = this.toIsoDate(
+          $(element).find('time').attr('datetime') ||
+          $(element).find('.date, .time, .published, .post-date').first().text()
+        );
+        
+        if (articleTitle && articleContent) {
+          articles.push({
+            title: articleTitle,
+            url: this.normalizeUrl(articleUrl, url),
+            content: articleContent,
+            date: articleDate
+          });
+        }
+      });
+      
+      // 記事が見つかったら終了
+      if (articles.length > 0) break;
+    }
+    
+    // 記事が見つからない場合は、リンクとテキストから推測
+    if (articles.length === 0) {
+      $('a').each((_, element) => {
+        const href = $(element).attr('href');
+        const text = $(element).text().trim();
+        
+        // 記事らしきリンクを検出
+        if (href && text && href.includes('/') && text.length > 20 && !href.startsWith('http')) {
+          articles.push({
+            title: text,
+            url: this.normalizeUrl(href, url),
+            content: text
+          });
+        }
+      });
+    }
+    
+    return articles;
+  }
+
   /**
    * 相対URLを絶対URLに変換
    */
@@ -138,45 +479,49 @@ export class BlogService {
   /**
    * ブログからトピックを抽出
    */
-  private extractTopicsFromBlog($: cheerio.CheerioAPI, articles: Array<{ title: string; content: string }>): Set<string> {
+  private extractTopicsFromBlog(
+    $: cheerio.CheerioAPI,
+    url: string,
+    articles: BlogArticle[],
+    evidence: EvidenceCollector
+  ): Set<string> {
     const topics = new Set<string>();
     
-    // タグやカテゴリーを抽出
-    const tagSelectors = [
-      '.tags a', '.categories a', '.category a', '.tag a',
-      'a[rel="tag"]', '.post-tags a', '.entry-tags a',
-      '.post-categories a', '.entry-categories a'
-    ];
+    // フィードのカテゴリーをタグとして扱う
+    for (const article of articles) {
+      for (const tag of article.tags || []) {
+        if (tag.length > 1) {
+          topics.add(tag);
+          evidence.add(tag, article.url, `${article.title}のタグ`, article.date);
+        }
+      }
+    }
     
-    for (const selector of tagSelectors) {
+    // タグやカテゴリーを抽出
+    for (const selector of TAG_SELECTORS) {
       $(selector).each((_, element) => {
         const tag = $(element).text().trim().toLowerCase();
         if (tag && tag.length > 1) {
           topics.add(tag);
+          evidence.add(tag, url, 'トップページのタグ');
         }
       });
     }
     
     // 記事のタイトルと内容からトピックを抽出
-    const techKeywords = [
-      'javascript', 'typescript', 'python', 'java', 'ruby', 'go', 'rust', 'c#', 'php',
-      'react', 'vue', 'angular', 'svelte', 'node', 'deno', 'rails', 'django', 'laravel',
-      'aws', 'azure', 'gcp', 'cloud', 'docker', 'kubernetes', 'devops', 'cicd',
-      'ai', 'ml', 'machine learning', 'deep learning', 'data', 'analytics',
-      'web', 'mobile', 'frontend', 'backend', 'fullstack', 'database', 'sql', 'nosql',
-      'security', 'blockchain', 'crypto', 'iot', 'ar', 'vr',
-      'architecture', 'microservices', 'serverless', 'testing', 'agile', 'scrum',
-      'design', 'ux', 'ui', 'accessibility', 'performance', 'optimization',
-    ];
-    
     for (const article of articles) {
-      const text = (article.title + ' ' + article.content).toLowerCase();
+      const text = article.title + ' ' + article.content;
       
-      // 技術キーワードの検出
-      for (const keyword of techKeywords) {
-        if (text.includes(keyword)) {
-          topics.add(keyword);
-        }
+      // 技術の検出
+      for (const { technology, match } of findTechnologiesInText(text)) {
+        topics.add(technology.name);
+        evidence.add(technology.name, article.url, excerpt(text, match), article.date);
+      }
+      
+      // 分野のキーワードの検出
+      for (const keyword of findTopicKeywordsInText(text)) {
+        topics.add(keyword);
+        evidence.add(keyword, article.url, excerpt(text, keyword), article.date);
       }
     }
     
@@ -188,119 +533,79 @@ export class BlogService {
    */
   private inferTechStack(
     $: cheerio.CheerioAPI,
-    articles: Array<{ title: string; content: string }>,
-    topics: Set<string>
-  ): { languages: Record<string, number>; frameworks: Record<string, number>; tools: Record<string, number> } {
-    const languages: Record<string, number> = {};
-    const frameworks: Record<string, number> = {};
-    const tools: Record<string, number> = {};
-    
-    // 言語のリスト
-    const languageList = [
-      'javascript', 'typescript', 'python', 'java', 'ruby', 'go', 'rust', 'c#', 'php',
-      'swift', 'kotlin', 'scala', 'haskell', 'clojure', 'elixir', 'erlang',
-      'c', 'c++', 'objective-c', 'dart', 'lua', 'perl', 'r',
-    ];
-    
-    // フレームワークのリスト
-    const frameworkList = [
-      'react', 'vue', 'angular', 'svelte', 'next', 'nuxt', 'gatsby',
-      'express', 'koa', 'nest', 'fastify', 'hapi',
-      'django', 'flask', 'fastapi', 'spring', 'rails', 'laravel',
-      'tensorflow', 'pytorch', 'keras',
-    ];
-    
-    // ツールのリスト
-    const toolList = [
-      'webpack', 'babel', 'eslint', 'prettier', 'jest', 'mocha', 'cypress',
-      'docker', 'kubernetes', 'aws', 'azure', 'gcp', 'firebase',
-      'graphql', 'apollo', 'redux', 'mobx', 'zustand',
-      'git', 'github', 'gitlab', 'bitbucket',
-    ];
-    
-    // コードブロックを検出
-    const codeBlocks: string[] = [];
-    $('pre, code').each((_, element) => {
-      codeBlocks.push($(element).text().trim().toLowerCase());
-    });
-    
-    // コードブロックから言語を推測
-    for (const code of codeBlocks) {
-      for (const lang of languageList) {
-        if (
-          code.includes(`function`) || 
-          code.includes(`class`) || 
-          code.includes(`import`) || 
-          code.includes(`from`) ||
-          code.includes(`def `) ||
-          code.includes(`var `) ||
-          code.includes(`const `) ||
-          code.includes(`let `)
-        ) {
-          // 言語の特徴的なキーワードを検出
-          if (
-            (lang === 'javascript' && (code.includes('const ') || code.includes('let ') || code.includes('function'))) ||
-            (lang === 'typescript' && (code.includes(':') && code.includes('interface'))) ||
-            (lang === 'python' && (code.includes('def ') || code.includes('import '))) ||
-            (lang === 'java' && (code.includes('public class') || code.includes('private '))) ||
-            (lang === 'ruby' && (code.includes('def ') || code.includes('end'))) ||
-            (lang === 'go' && (code.includes('func ') || code.includes('package ')))
-          ) {
-            languages[lang] = (languages[lang] || 0) + 1;
-          }
-        }
+    url: string,
+    articles: BlogArticle[],
+    topics: Set<string>,
+    evidence: EvidenceCollector
+  ): TechStackScores {
+    const scores: TechStackScores = { languages: {}, frameworks: {}, tools: {} };
+    
+    // 記事ごとのコードブロック（本文のHTMLがなければトップページ）
+    const sources: { $: cheerio.CheerioAPI; url: string; date?: string }[] = articles
+      .flatMap(a => (a.html ? [{ $: cheerio.load(a.html), url: a.url, date: a.date }] : []));
+    if (sources.length === 0) sources.push({ $, url });
+    
+    // コードブロックごとに言語を1つに決め、確度をスコアとして加算
+    for (const source of sources) {
+      for (const block of extractCodeBlocks(source.$)) {
+        const detected = detectCodeLanguage(block);
+        if (!detected) continue;
+        
+        const { language, confidence } = detected;
+        scores.languages[language] = (scores.languages[language] || 0) + confidence;
+        evidence.add(language, source.url, `コードブロック（確度${confidence}）: ${block.code.trim()}`, source.date);
       }
     }
     
-    // 記事のタイトルと内容から技術スタックを推測
+    // 記事のタイトルと内容から技術スタックを推測し、記事のタグで補完（その記事の本文から検出した技術は数え済みのため除く）
+    const detectedInBody = new Set<string>();
     for (const article of articles) {
-      const text = (article.title + ' ' + article.content).toLowerCase();
-      
-      // 言語の検出
-      for (const lang of languageList) {
-        if (text.includes(lang)) {
-          languages[lang] = (languages[lang] || 0) + 1;
-        }
-      }
+      const text = article.title + ' ' + article.content;
+      const detected = new Set<string>();
       
-      // フレームワークの検出
-      for (const fw of frameworkList) {
-        if (text.includes(fw)) {
-          frameworks[fw] = (frameworks[fw] || 0) + 1;
-        }
+      for (const { technology, match } of findTechnologiesInText(text)) {
+        addTechnology(scores, technology);
+        evidence.add(technology.name, article.url, excerpt(text, match), article.date);
+        detected.add(technology.name);
+        detectedInBody.add(technology.name);
       }
       
-      // ツールの検出
-      for (const tool of toolList) {
-        if (text.includes(tool)) {
-          tools[tool] = (tools[tool] || 0) + 1;
-        }
+      for (const tag of new Set(article.tags || [])) {
+        const technology = classifyTerm(tag);
+        if (!technology || detected.has(technology.name)) continue;
+        
+        detected.add(technology.name);
+        addTechnology(scores, technology);
+        evidence.add(technology.name, article.url, `${article.title}のタグ: ${tag}`, article.date);
       }
     }
     
-    // トピックからも技術スタックを補完
+    // トップページのタグからも補完（いずれかの記事の本文から検出した技術は除く）
+    const articleTags = new Set(articles.flatMap(article => article.tags || []));
     for (const topic of topics) {
-      const topicLower = topic.toLowerCase();
+      if (articleTags.has(topic)) continue;
       
-      if (languageList.some(lang => topicLower.includes(lang))) {
-        const lang = languageList.find(l => topicLower.includes(l));
-        if (lang) languages[lang] = (languages[lang] || 0) + 1;
-      } else if (frameworkList.some(fw => topicLower.includes(fw))) {
-        const fw = frameworkList.find(f => topicLower.includes(f));
-        if (fw) frameworks[fw] = (frameworks[fw] || 0) + 1;
-      } else if (toolList.some(tool => topicLower.includes(tool))) {
-        const tool = toolList.find(t => topicLower.includes(t));
-        if (tool) tools[tool] = (tools[tool] || 0) + 1;
-      }
+      const technology = classifyTerm(topic);
+      if (!technology || detectedInBody.has(technology.name)) continue;
+      
+      addTechnology(scores, technology);
+      evidence.add(technology.name, url, `タグ: ${topic}`);
     }
     
-    return { languages, frameworks, tools };
+    return scores;
   }
 
   /**
    * コミュニケーションスタイルの分析
+   *
+   * 判定に使った数値を根拠として記録する
    */
-  private analyzeCommStyle($: cheerio.CheerioAPI, articles: Array<{ title: string; content: string }>): string {
+  private analyzeCommStyle(
+    $: cheerio.CheerioAPI,
+    url: string,
+    articles: Array<{ title: string; content: string }>,
+    evidence: EvidenceCollector
+  ): string {
     if (articles.length === 0) {
       return '情報不足のため分析できません';
     }
@@ -322,6 +627,13 @@ export class BlogService {
     let imageCount = 0;
     $('img').each(() => { imageCount++; });
     
+    evidence.add(
+      TraitField.STYLE,
+      url,
+      `${count}件の記事（本文平均${Math.round(avgContentLength)}文字、タイトル平均${Math.round(avgTitleLength)}文字、` +
+      `コードブロック${codeBlockCount}個、画像${imageCount}枚）`
+    );
+    
     // スタイル分析
     if (codeBlockCount > count * 0.7) {
       return '技術的な解説を重視するスタイル';
@@ -338,79 +650,65 @@ export class BlogService {
     return 'バランスの取れたコミュニケーションスタイル';
   }
 
-  /**
-   * 投稿頻度の推測（月間平均）
-   */
-  private estimatePostFrequency(articles: Array<{ date?: string }>): number {
-    // 日付情報がある記事を抽出
-    const articlesWithDates = articles.filter(a => a.date).map(a => {
-      try {
-        return { date: new Date(a.date || '') };
-      } catch (error) {
-        return null;
-      }
-    }).filter(Boolean) as Array<{ date: Date }>;
-    
-    if (articlesWithDates.length < 2) return articles.length / 12; // 日付情報が不足している場合は概算
-    
-    // 日付でソート
-    articlesWithDates.sort((a, b) => a.date.getTime() - b.date.getTime());
-    
-    // 最新と最古の記事の日付を取得
-    const oldestDate = articlesWithDates[0].date;
-    const newestDate = articlesWithDates[articlesWithDates.length - 1].date;
-    
-    // 月数の計算
-    const monthsDiff = (newestDate.getFullYear() - oldestDate.getFullYear()) * 12 + 
-                       (newestDate.getMonth() - oldestDate.getMonth());
-    
-    return monthsDiff > 0 ? articles.length / monthsDiff : articles.length;
-  }
-
   /**
    * 仕事のスタイルを推測
    */
-  private inferWorkStyle(articles: Array<{ title: string; content: string }>): string {
+  private inferWorkStyle(articles: BlogArticle[], evidence: EvidenceCollector): string {
     if (articles.length === 0) {
       return '情報不足のため分析できません';
     }
     
-    const text = articles.map(a => a.title + ' ' + a.content).join(' ').toLowerCase();
+    // キーワードを含む最初の記事と、一致した箇所を探す
+    const findFocus = (keywords: string[]) => {
+      for (const article of articles) {
+        const text = (article.title + ' ' + article.content).toLowerCase();
+        const keyword = keywords.find(kw => text.includes(kw));
+        if (keyword) return { url: article.url, snippet: excerpt(text, keyword) };
+      }
+      return undefined;
+    };
+    
+    // 判定の決め手になった記事を根拠として記録
+    const record = (...focuses: Array<{ url: string; snippet: string } | undefined>) => {
+      focuses.forEach(focus => focus && evidence.add(TraitField.WORK_STYLE, focus.url, focus.snippet));
+    };
     
     // チーム関連のキーワード
-    const teamKeywords = ['team', 'collaboration', 'agile', 'scrum', 'kanban', 'together', 'チーム', '協力', '協働'];
-    const hasTeamFocus = teamKeywords.some(kw => text.includes(kw));
+    const teamFocus = findFocus(['team', 'collaboration', 'agile', 'scrum', 'kanban', 'together', 'チーム', '協力', '協働']);
     
     // 個人関連のキーワード
-    const individualKeywords = ['personal', 'individual', 'solo', 'self', '個人', '一人'];
-    const hasIndividualFocus = individualKeywords.some(kw => text.includes(kw));
+    const individualFocus = findFocus(['personal', 'individual', 'solo', 'self', '個人', '一人']);
     
     // リーダーシップ関連のキーワード
-    const leadershipKeywords = ['lead', 'leadership', 'manage', 'management', 'strategy', 'vision', 'リーダー', '戦略', 'マネジメント'];
-    const hasLeadershipFocus = leadershipKeywords.some(kw => text.includes(kw));
+    const leadershipFocus = findFocus(['lead', 'leadership', 'manage', 'management', 'strategy', 'vision', 'リーダー', '戦略', 'マネジメント']);
     
     // 技術的詳細関連のキーワード
-    const technicalKeywords = ['detail', 'implementation', 'code', 'architecture', 'design', 'pattern', '実装', 'コード', '設計'];
-    const hasTechnicalFocus = technicalKeywords.some(kw => text.includes(kw));
+    const technicalFocus = findFocus(['detail', 'implementation', 'code', 'architecture', 'design', 'pattern', '実装', 'コード', '設計']);
     
     // 教育関連のキーワード
-    const educationalKeywords = ['teach', 'learn', 'education', 'tutorial', 'guide', 'how-to', '学習', '教育', 'チュートリアル'];
-    const hasEducationalFocus = educationalKeywords.some(kw => text.includes(kw));
+    const educationalFocus = findFocus(['teach', 'learn', 'education', 'tutorial', 'guide', 'how-to', '学習', '教育', 'チュートリアル']);
     
     // スタイル分析
-    if (hasEducationalFocus && hasTechnicalFocus) {
+    if (educationalFocus && technicalFocus) {
+      record(educationalFocus, technicalFocus);
       return '知識共有を重視する教育的なスタイル';
-    } else if (hasLeadershipFocus && hasTeamFocus) {
+    } else if (leadershipFocus && teamFocus) {
+      record(leadershipFocus, teamFocus);
       return 'チームリーダーシップを重視するスタイル';
-    } else if (hasTeamFocus) {
+    } else if (teamFocus) {
+      record(teamFocus);
       return '協調性を重視するスタイル';
-    } else if (hasIndividualFocus && hasTechnicalFocus) {
+    } else if (individualFocus && technicalFocus) {
+      record(individualFocus, technicalFocus);
       return '技術的な深掘りを好む個人作業スタイル';
-    } else if (hasTechnicalFocus) {
+    } else if (technicalFocus) {
+      record(technicalFocus);
       return '技術的な詳細にこだわるスタイル';
-    } else if (hasLeadershipFocus) {
+    } else if (leadershipFocus) {
+      record(leadershipFocus);
       return 'ビジョンや戦略を重視するスタイル';
-    } else if (hasEducationalFocus) {
+    } else if (educationalFocus) {
+      record(educationalFocus);
       return '教育や知識共有を重視するスタイル';
     }
     
@@ -0,0 +1,376 @@
+import * as cheerio from 'cheerio';
+import { findTechnology } from '../taxonomy.js';
+
+/**
+ * 判定できたとみなすスコアの下限（これ未満のコードブロックは数えない）
+ */
+const MIN_CLASSIFIER_SCORE = 3;
+
+/**
+ * 確度を最大とするスコア（短いコードは特徴が少ないため確度を下げる）
+ */
+const CONFIDENT_CLASSIFIER_SCORE = 8;
+
+/**
+ * 遡って言語の指定を探す親要素の数（Jekyllのrougeは2つ上の要素に指定する）
+ */
+const MAX_HINT_ANCESTORS = 3;
+
+/**
+ * 記事中のコードブロック
+ */
+export interface CodeBlock {
+  code: string;
+  hints: string[]; // ハイライターが付けた言語の指定（「language-ts」の「ts」など）
+}
+
+/**
+ * コードブロックの言語の判定結果
+ */
+export interface CodeLanguage {
+  language: string; // 技術の辞書の正規の表記
+  confidence: number; // 0〜1（ハイライターの指定に基づく場合は1）
+}
+
+/**
+ * ハイライターで使われる略称と技術の辞書の表記の対応
+ */
+const HINT_ALIASES: Record<string, string> = {
+  jsx: 'javascript', mjs: 'javascript', cjs: 'javascript', node: 'javascript',
+  tsx: 'typescript', mts: 'typescript',
+  py: 'python', python3: 'python',
+  rb: 'ruby', erb: 'ruby',
+  golang: 'go',
+  rs: 'rust',
+  kt: 'kotlin', kts: 'kotlin',
+  cs: 'c#', csharp: 'c#',
+  cc: 'c++', cxx: 'c++', hpp: 'c++',
+  h: 'c',
+  objc: 'objective-c',
+  sh: 'shell', bash: 'shell', zsh: 'shell', console: 'shell', shellsession: 'shell',
+  ex: 'elixir', exs: 'elixir',
+  hs: 'haskell',
+  erl: 'erlang',
+  pl: 'perl',
+  html5: 'html', xhtml: 'html',
+  scss: 'css', sass: 'css', less: 'css',
+};
+
+/**
+ * 言語ごとの特徴的な記述と重み
+ *
+ * extendsを指定した言語は、自身の特徴が1つ以上ある場合に限り元の言語のスコアを加える
+ * （TypeScriptの型注釈があればJavaScriptの特徴もTypeScriptの根拠として数える）
+ */
+const LANGUAGE_FEATURES: Array<{ language: string; extends?: string; features: Array<[RegExp, number]> }> = [
+  {
+    language: 'JavaScript',
+    features: [
+      [/\b(const|let|var)\s+\w+\s*=/, 1],
+      [/=>/, 1],
+      [/\bfunction\s*\w*\s*\(/, 2],
+      [/\bconsole\.log\(/, 2],
+      [/\brequire\(\s*['"]/, 2],
+      [/\bmodule\.exports\b/, 3],
+      [/\b(document|window)\.\w+/, 2],
+      [/===|!==/, 1],
+      [/^\s*import\s+.+\s+from\s+['"]/m, 2],
+      [/\bexport\s+(default|const|function)\b/, 1],
+      [/\bawait\s+\w+/, 1],
+    ],
+  },
+  {
+    language: 'TypeScript',
+    extends: 'JavaScript',
+    features: [
+      [/\w\s*:\s*(string|number|boolean|any|unknown|void|never)\b/, 3],
+      [/\binterface\s+\w+(<[^>]*>)?\s*(extends\s+[\w<>, ]+)?\{/, 3],
+      [/\btype\s+\w+(<[^>]*>)?\s*=/, 2],
+      [/\bimport\s+type\b/, 3],
+      [/\bas\s+(const|string|number|unknown)\b/, 2],
+      [/\b(public|private|protected|readonly)\s+\w+\s*[:?]/, 2],
+      [/\):\s*(Promise<|[\w<>[\]]+\s*\{)/, 2],
+    ],
+  },
+  {
+    language: 'Python',
+    features: [
+      [/^\s*def\s+\w+\(.*\)\s*(->\s*[^:]+)?:\s*$/m, 4],
+      [/^\s*(from\s+[\w.]+\s+)?import\s+[\w., ]+(\s+as\s+\w+)?\s*$/m, 2],
+      [/\bself\.\w+/, 2],
+      [/\bprint\(/, 1],
+      [/^\s*(if|elif|else|for|while|with|try|except|class)\b[^{};]*:\s*$/m, 2],
+      [/\b(None|True|False)\b/, 1],
+      [/__\w+__/, 2],
+      [/\belif\b/, 3],
+    ],
+  },
+  {
+    language: 'Ruby',
+    features: [
+      [/^\s*def\s+[\w.]+[?!]?(\(.*\))?\s*$/m, 3],
+      [/^\s*end\s*$/m, 2],
+      [/\bdo\s*(\|[\w, ]+\|)?\s*$/m, 2],
+      [/\{\s*\|[\w, ]+\|/, 3],
+      [/\bputs\b/, 2],
+      [/^\s*require(_relative)?\s+['"]/m, 2],
+      [/\battr_(accessor|reader|writer)\b/, 3],
+      [/:\w+\s*=>|\b\w+:\s+['":\w]/, 1],
+      [/\belsif\b/, 3],
+      [/^\s*(module|class)\s+[A-Z]\w*(\s*<\s*[\w:]+)?\s*$/m, 2],
+    ],
+  },
+  {
+    language: 'Go',
+    features: [
+      [/^\s*package\s+\w+\s*$/m, 3],
+      [/\bfunc\s+(\(\w+\s+\*?\w+\)\s*)?\w+\(/, 3],
+      [/:=/, 2],
+      [/\bfmt\.\w+\(/, 3],
+      [/\berr\s*!=\s*nil\b/, 4],
+      [/\bgo\s+func\b|\bchan\s+\w+/, 2],
+      [/^\s*import\s*\(\s*$/m, 2],
+      [/\b(struct|interface)\s*\{/, 1],
+    ],
+  },
+  {
+    language: 'Rust',
+    features: [
+      [/\bfn\s+\w+(<[^>]*>)?\s*\(/, 3],
+      [/\blet\s+mut\b/, 3],
+      [/\bimpl\b/, 2],
+      [/\bpub\s+(fn|struct|enum|mod|trait)\b/, 3],
+      [/\b\w+!\(/, 2],
+      [/^\s*use\s+\w+(::[\w{}*, ]+)+;/m, 3],
+      [/&mut\b|&self\b/, 2],
+      [/\bmatch\s+[\w.]+\s*\{/, 1],
+      [/\b(Option|Result|Vec|Box)</, 2],
+    ],
+  },
+  {
+    language: 'Java',
+    features: [
+      [/\bpublic\s+(static\s+)?(final\s+)?(class|interface|enum|void)\b/, 2],
+      [/\bSystem\.out\.print/, 3],
+      [/^\s*import\s+(static\s+)?java(x)?\.[\w.*]+;/m, 3],
+      [/^\s*package\s+[\w.]+;/m, 2],
+      [/\bpublic\s+static\s+void\s+main\s*\(\s*String/, 3],
+      [/@Override\b/, 2],
+      [/\bprivate\s+(final\s+)?\w+(<[^>]*>)?\s+\w+\s*[;=]/, 2],
+    ],
+  },
+  {
+    language: 'Kotlin',
+    features: [
+      [/\bfun\s+(<[^>]*>\s*)?[\w.]+\s*\(/, 3],
+      [/\bval\s+\w+(\s*:\s*[\w<>?]+)?\s*=/, 2],
+      [/\bdata\s+class\b/, 3],
+      [/\bcompanion\s+object\b/, 3],
+      [/\bprintln\(/, 1],
+      [/\bwhen\s*(\(.*\))?\s*\{/, 2],
+    ],
+  },
+  {
+    language: 'C#',
+    features: [
+      [/^\s*using\s+System(\.\w+)*;/m, 3],
+      [/\bConsole\.Write(Line)?\(/, 3],
+      [/\{\s*get;\s*(private\s+)?set;\s*\}/, 3],
+      [/\basync\s+Task\b/, 3],
+      [/\bnamespace\s+[\w.]+\s*[;{]?/, 1],
+      [/\bvar\s+\w+\s*=\s*new\b/, 1],
+      [/\[\w+(\(.*\))?\]\s*$/m, 1],
+    ],
+  },
+  {
+    language: 'PHP',
+    features: [
+      [/<\?php/, 5],
+      [/\$\w+\s*=/, 2],
+      [/\$this->/, 3],
+      [/\bfunction\s+\w+\s*\(\s*(\??\w+\s+)?\$/, 3],
+      [/\becho\s+/, 1],
+      [/^\s*(namespace|use)\s+\w+\\/m, 3],
+    ],
+  },
+  {
+    language: 'C',
+    features: [
+      [/#include\s*<[\w/]+\.h>/, 3],
+      [/\bint\s+main\s*\(/, 2],
+      [/\bprintf\s*\(/, 2],
+      [/\b(malloc|free)\s*\(/, 2],
+      [/\btypedef\s+struct\b|\bstruct\s+\w+\s*\{/, 1],
+      [/\bsizeof\s*\(/, 1],
+    ],
+  },
+  {
+    language: 'C++',
+    extends: 'C',
+    features: [
+      [/#include\s*<\w+>/, 3],
+      [/\bstd::/, 3],
+      [/\bcout\s*<</, 3],
+      [/\btemplate\s*</, 3],
+      [/\busing\s+namespace\s+std\b/, 3],
+      [/\bauto\s+\w+\s*=/, 1],
+    ],
+  },
+  {
+    language: 'Swift',
+    features: [
+      [/^\s*import\s+(UIKit|Foundation|SwiftUI|Combine)\s*$/m, 4],
+      [/\bfunc\s+\w+\s*(<[^>]*>)?\([^)]*\)\s*(throws\s+)?(->\s*[\w?[\]]+\s*)?\{/, 2],
+      [/\b(guard|if)\s+let\b/, 3],
+      [/\bvar\s+body\s*:\s*some\s+View\b/, 4],
+      [/@(State|Published|Binding|MainActor)\b/, 3],
+      [/\blet\s+\w+\s*:\s*[\w?[\]]+\s*=/, 1],
+    ],
+  },
+  {
+    language: 'Shell',
+    features: [
+      [/^#!\/(usr\/)?bin\/(env\s+)?(ba|z)?sh/m, 5],
+      [/^\s*\$\s+\w+/m, 3],
+      [/^\s*(sudo|apt(-get)?|brew|npm|npx|yarn|pnpm|pip3?|cd|ls|mkdir|export|curl|git|docker|kubectl|make)\s/m, 2],
+      [/^\s*(fi|done|esac)\s*$/m, 2],
+      [/\|\s*(grep|awk|sed|xargs|sort|head|tail)\b/, 2],
+      [/\s(-{1,2}[\w-]+\s+){2,}/, 1],
+    ],
+  },
+  {
+    language: 'HTML',
+    features: [
+      [/<!DOCTYPE\s+html/i, 5],
+      [/<(html|head|body|div|span|ul|li|section|link|meta)\b[^>]*>/i, 2],
+      [/<\/(div|span|p|li|section|body|html)>/i, 1],
+      [/\s(class|href|src|id)="[^"]*"/, 1],
+    ],
+  },
+  {
+    language: 'CSS',
+    features: [
+      [/^\s*[.#:]?[\w-]+([\s,>+~]+[.#:]?[\w-]+)*\s*\{\s*$/m, 2],
+      [/^\s*[\w-]+\s*:\s*[^;{}]+;\s*$/m, 2],
+      [/@media\b|@import\s+url|@keyframes\b/, 3],
+      [/\b\d+(px|em|rem|vh|vw)\b/, 1],
+      [/#[0-9a-f]{3,6}\b/i, 1],
+    ],
+  },
+];
+
+/**
+ * 記事のHTMLからコードブロックを抽出
+ *
+ * インラインのcodeは短く判定できないため、preとGitHub Gistの埋め込みだけを対象とする
+ */
+export function extractCodeBlocks($: cheerio.CheerioAPI): CodeBlock[] {
+  const blocks: CodeBlock[] = [];
+
+  $('pre, .gist-file').each((_, element) => {
+    const $element = $(element);
+    // Gistの中のpreは埋め込み全体として1回だけ数える
+    if ($element.is('pre') && $element.closest('.gist-file').length > 0) return;
+
+    const code = $element.is('pre')
+      ? $element.text()
+      : $element.find('.blob-code').map((_, line) => $(line).text()).get().join('\n');
+    if (!code.trim()) return;
+
+    // 要素自身・子のcode・親要素に付いた指定を集める
+    const $sources = $element
+      .add($element.find('code, [data-tagsearch-lang], .blob-wrapper'))
+      .add($element.parents().slice(0, MAX_HINT_ANCESTORS));
+    const hints: string[] = [];
+    $sources.each((_, source) => {
+      const $source = $(source);
+      hints.push(...parseClassHints($source.attr('class') || ''));
+      for (const attribute of ['data-lang', 'data-language', 'data-tagsearch-lang']) {
+        const value = $source.attr(attribute);
+        if (value) hints.push(value.toLowerCase());
+      }
+    });
+
+    blocks.push({ code, hints: Array.from(new Set(hints)) });
+  });
+
+  return blocks;
+}
+
+/**
+ * class属性から言語の指定を取り出す
+ *
+ * Prism・highlight.js・Hugo（language-xxx）、Prismの旧形式（lang-xxx）、Gist（type-xxx、highlight-source-xxx）、
+ * SyntaxHighlighter（brush: xxx）、highlight.jsの旧形式（「python hljs」）に対応する
+ */
+function parseClassHints(className: string): string[] {
+  const hints: string[] = [];
+  const tokens = className.toLowerCase().split(/\s+/).filter(Boolean);
+
+  for (const token of tokens) {
+    const match = token.match(/^(?:language|lang|type|highlight-source|brush)-(.+)$/);
+    if (match) hints.push(match[1]);
+  }
+
+  const brush = className.match(/brush:\s*([\w#+-]+)/i);
+  if (brush) hints.push(brush[1].toLowerCase());
+
+  if (tokens.includes('hljs')) {
+    hints.push(...tokens.filter(token => token !== 'hljs' && resolveHint(token)));
+  }
+
+  return hints;
+}
+
+/**
+ * 言語の指定を技術の辞書の言語に変換
+ */
+function resolveHint(hint: string): string | undefined {
+  const technology = findTechnology(HINT_ALIASES[hint] ?? hint);
+  return technology?.category === 'language' ? technology.name : undefined;
+}
+
+/**
+ * コードブロックの言語を1つに決める
+ *
+ * ハイライターの指定が辞書の言語に一致すればそれに従い、なければコードの特徴から判定する
+ * （「text」のような言語でない指定や、親要素の「type-post」のような無関係なクラスは無視される）
+ */
+export function detectCodeLanguage(block: CodeBlock): CodeLanguage | undefined {
+  const language = block.hints.map(resolveHint).find(Boolean);
+  if (language) return { language, confidence: 1 };
+
+  return classifyCode(block.code);
+}
+
+/**
+ * コードの特徴的な記述から言語を判定
+ *
+ * 確度は、1位と2位のスコアの差（他の言語と紛らわしくないか）と、1位のスコアの大きさ（特徴の多さ）から求める。
+ * 1位の言語の元の言語（TypeScriptに対するJavaScriptなど）は特徴を共有するため2位として扱わない
+ */
+export function classifyCode(code: string): CodeLanguage | undefined {
+  const ownScores = new Map(
+    LANGUAGE_FEATURES.map(({ language, features }) => [
+      language,
+      features.reduce((sum, [pattern, weight]) => sum + (pattern.test(code) ? weight : 0), 0),
+    ])
+  );
+
+  const scores = LANGUAGE_FEATURES
+    .map(({ language, extends: base }) => {
+      const own = ownScores.get(language) ?? 0;
+      return { language, score: own > 0 && base ? own + (ownScores.get(base) ?? 0) : own };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  const [best] = scores;
+  if (!best || best.score < MIN_CLASSIFIER_SCORE) return undefined;
+
+  const base = LANGUAGE_FEATURES.find(({ language }) => language === best.language)?.extends;
+  const second = scores.slice(1).find(({ language }) => language !== base);
+
+  const margin = best.score / (best.score + (second?.score ?? 0));
+  const strength = Math.min(1, best.score / CONFIDENT_CLASSIFIER_SCORE);
+  return { language: best.language, confidence: Math.round(margin * strength * 100) / 100 };
+}
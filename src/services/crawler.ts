@@ -0,0 +1,280 @@
+import axios from 'axios';
+import * as cheerio from 'cheerio';
+
+/**
+ * クローラーの設定
+ */
+export interface CrawlerOptions {
+  maxPages: number; // 取得するページ数の上限
+  maxDepth: number; // 開始ページから辿るページ送りの上限
+  delayMs: number; // リクエスト間の待ち時間（ミリ秒）
+  timeBudgetMs: number; // 分析開始からクロールに使える時間（プラットフォームの制限時間より短くし、取得済みのページで分析する）
+  userAgent: string;
+}
+
+export const DEFAULT_CRAWLER_OPTIONS: CrawlerOptions = {
+  maxPages: 30,
+  maxDepth: 3,
+  delayMs: 1000,
+  timeBudgetMs: 40 * 1000,
+  userAgent: 'how-person-bot',
+};
+
+/**
+ * ダウンロードするページのサイズ上限（バイト）
+ */
+const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * robots.txtのルール
+ */
+interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+  crawlDelayMs?: number;
+}
+
+/**
+ * 同一オリジン内に限定し、robots.txtと待ち時間を守ってページを取得するクローラー
+ */
+export class BlogCrawler {
+  private origin: string;
+  private options: CrawlerOptions;
+  private robots?: RobotsRules;
+  private visited = new Set<string>();
+  private fetchedCount = 0;
+  private lastFetchedAt = 0;
+  private deadline: number;
+  private signal?: AbortSignal;
+  
+  constructor(startUrl: string, options: Partial<CrawlerOptions> = {}, signal?: AbortSignal) {
+    this.origin = new URL(startUrl).origin;
+    this.options = { ...DEFAULT_CRAWLER_OPTIONS, ...options };
+    this.deadline = Date.now() + this.options.timeBudgetMs;
+    this.signal = signal;
+  }
+
+  /**
+   * 残りの取得可能ページ数
+   *
+   * robots.txtのCrawl-delayが長いサイトでも持ち時間を超えないよう、残り時間内に待てる回数に抑える
+   */
+  public get remaining(): number {
+    const byCount = this.options.maxPages - this.fetchedCount;
+    const byTime = Math.floor((this.deadline - Date.now()) / Math.max(this.delay, 1));
+    return Math.max(0, Math.min(byCount, byTime));
+  }
+
+  public get maxDepth(): number {
+    return this.options.maxDepth;
+  }
+
+  /**
+   * 取得済みとして記録（クローラー以外で取得したページの再取得を防ぐ）
+   */
+  public markVisited(url: string): void {
+    this.visited.add(this.normalize(url));
+  }
+
+  /**
+   * ページを取得可能かどうかを判定
+   */
+  public async canFetch(url: string): Promise<boolean> {
+    let target: URL;
+    try {
+      target = new URL(url);
+    } catch (error) {
+      return false;
+    }
+    
+    if (target.origin !== this.origin) return false;
+    if (this.visited.has(this.normalize(url))) return false;
+    
+    // Crawl-delayによって残りのページ数が変わるため、robots.txtを読んでから判定する
+    const robots = await this.loadRobots();
+    if (this.remaining === 0 || this.signal?.aborted) return false;
+    return this.isAllowed(robots, target.pathname + target.search);
+  }
+
+  /**
+   * ページを取得（取得が許可されていない場合はundefined、通信エラーはそのまま投げる）
+   */
+  public async request(url: string): Promise<{ data: string; contentType: string } | undefined> {
+    if (!(await this.canFetch(url))) {
+      return undefined;
+    }
+    
+    this.markVisited(url);
+    this.fetchedCount++;
+    await this.wait();
+    
+    const response = await axios.get(url, {
+      responseType: 'text',
+      headers: { 'User-Agent': this.options.userAgent },
+      maxContentLength: MAX_PAGE_BYTES,
+      signal: this.signal,
+    });
+    return { data: String(response.data), contentType: String(response.headers['content-type'] || '') };
+  }
+
+  /**
+   * ページを取得してHTMLを解析（取得できない場合はundefined）
+   */
+  public async fetch(url: string): Promise<cheerio.CheerioAPI | undefined> {
+    const page = await this.fetchText(url);
+    if (!page || (page.contentType && !page.contentType.includes('html'))) {
+      return undefined;
+    }
+    return cheerio.load(page.data);
+  }
+
+  /**
+   * ページを取得して内容をそのまま返す（取得できない場合はundefined）
+   */
+  public async fetchText(url: string): Promise<{ data: string; contentType: string } | undefined> {
+    try {
+      return await this.request(url);
+    } catch (error) {
+      this.signal?.throwIfAborted();
+      console.error(`Failed to crawl ${url}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * 前回のリクエストから待ち時間が経過するまで待機（中断されたら待機を打ち切る）
+   */
+  private async wait(): Promise<void> {
+    const delay = this.delay;
+    const elapsed = Date.now() - this.lastFetchedAt;
+    if (this.lastFetchedAt > 0 && elapsed < delay) {
+      await new Promise<void>((resolve, reject) => {
+        const signal = this.signal;
+        const onAbort = () => {
+          clearTimeout(timer);
+          reject(signal?.reason);
+        };
+        const timer = setTimeout(() => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        }, delay - elapsed);
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+    }
+    this.signal?.throwIfAborted();
+    this.lastFetchedAt = Date.now();
+  }
+
+  /**
+   * リクエスト間の待ち時間（robots.txtのCrawl-delayの方が長ければそちらに従う）
+   */
+  private get delay(): number {
+    return Math.max(this.options.delayMs, this.robots?.crawlDelayMs || 0);
+  }
+
+  /**
+   * robots.txtを取得（存在しない場合は全て許可）
+   */
+  private async loadRobots(): Promise<RobotsRules> {
+    if (this.robots) {
+      return this.robots;
+    }
+    
+    try {
+      const response = await axios.get(`${this.origin}/robots.txt`, {
+        responseType: 'text',
+        headers: { 'User-Agent': this.options.userAgent },
+        maxContentLength: MAX_PAGE_BYTES,
+        signal: this.signal,
+      });
+      this.robots = this.parseRobots(String(response.data));
+    } catch (error) {
+      this.robots = { allow: [], disallow: [] };
+    }
+    
+    return this.robots;
+  }
+
+  /**
+   * robots.txtから自身のUser-Agent（なければ*）向けのルールを抽出
+   */
+  private parseRobots(text: string): RobotsRules {
+    const groups: Array<{ agents: string[]; rules: RobotsRules }> = [];
+    let current: { agents: string[]; rules: RobotsRules } | undefined;
+    let lastWasAgent = false;
+    
+    for (const rawLine of text.split(/\r?\n/)) {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      const separator = line.indexOf(':');
+      if (separator < 0) continue;
+      
+      const field = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+      
+      if (field === 'user-agent') {
+        // 連続するUser-agent行は同じグループ
+        if (!current || !lastWasAgent) {
+          current = { agents: [], rules: { allow: [], disallow: [] } };
+          groups.push(current);
+        }
+        current.agents.push(value.toLowerCase());
+        lastWasAgent = true;
+        continue;
+      }
+      
+      lastWasAgent = false;
+      if (!current) continue;
+      
+      if (field === 'allow' && value) {
+        current.rules.allow.push(value);
+      } else if (field === 'disallow' && value) {
+        current.rules.disallow.push(value);
+      } else if (field === 'crawl-delay' && !isNaN(Number(value))) {
+        current.rules.crawlDelayMs = Number(value) * 1000;
+      }
+    }
+    
+    const userAgent = this.options.userAgent.toLowerCase();
+    const group = groups.find(g => g.agents.some(agent => agent !== '*' && userAgent.includes(agent))) ||
+                  groups.find(g => g.agents.includes('*'));
+    
+    return group ? group.rules : { allow: [], disallow: [] };
+  }
+
+  /**
+   * パスがrobots.txtで許可されているか判定（最長一致のルールを優先）
+   */
+  private isAllowed(robots: RobotsRules, path: string): boolean {
+    const longestMatch = (patterns: string[]) => Math.max(
+      -1,
+      ...patterns.filter(pattern => this.matchesRobotsPattern(pattern, path)).map(pattern => pattern.length)
+    );
+    
+    return longestMatch(robots.allow) >= longestMatch(robots.disallow);
+  }
+
+  /**
+   * robots.txtのパターン（*と$に対応）にパスが一致するか判定
+   */
+  private matchesRobotsPattern(pattern: string, path: string): boolean {
+    const anchored = pattern.endsWith('$');
+    const body = (anchored ? pattern.slice(0, -1) : pattern)
+      .split('*')
+      .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${body}${anchored ? '$' : ''}`).test(path);
+  }
+
+  /**
+   * 重複判定用にURLを正規化（フラグメントを除去）
+   */
+  private normalize(url: string): string {
+    try {
+      const parsed = new URL(url);
+      parsed.hash = '';
+      return parsed.toString();
+    } catch (error) {
+      return url;
+    }
+  }
+}
@@ -1,13 +1,172 @@
 import { Octokit } from '@octokit/rest';
-import { Platform, PlatformAnalysis, TechStack, Personality } from '../types.js';
+import { AnalysisStatus, Platform, PlatformAnalysis, PlatformService, ProgressReporter, TechStack, Personality } from '../types.js';
+import { isNotFound, PlatformError } from '../errors.js';
+import { detectTechnologies, isManifestFile } from './manifests.js';
+import { EvidenceCollector, TraitField } from '../evidence.js';
+import { addTechnology, canonicalLanguage, classifyTerm, Technology, TechStackScores } from '../taxonomy.js';
+import { RateLimitError, RateLimiter, RateLimiterOptions, RateLimitInfo } from '../ratelimit.js';
+
+/**
+ * マニフェストファイルを解析するリポジトリ数の上限
+ */
+const MAX_MANIFEST_REPOS = 10;
+
+/**
+ * GraphQLで取得するリポジトリのページ数の上限（1ページ100件）
+ */
+const MAX_GRAPHQL_PAGES = 3;
+
+/**
+ * プロフィール・リポジトリ・言語・トピック・ピン留めをまとめて取得するクエリ
+ */
+const PROFILE_QUERY = `
+  query($login: String!, $cursor: String) {
+    user(login: $login) {
+      login
+      name
+      bio
+      company
+      location
+      websiteUrl
+      createdAt
+      followers { totalCount }
+      pinnedItems(first: 6, types: REPOSITORY) {
+        nodes { ... on Repository { name } }
+      }
+      repositories(first: 100, after: $cursor, ownerAffiliations: OWNER, orderBy: { field: UPDATED_AT, direction: DESC }) {
+        pageInfo { hasNextPage endCursor }
+        nodes {
+          name
+          description
+          isFork
+          stargazerCount
+          forkCount
+          pushedAt
+          updatedAt
+          url
+          primaryLanguage { name }
+          languages(first: 20, orderBy: { field: SIZE, direction: DESC }) {
+            edges { size node { name } }
+          }
+          repositoryTopics(first: 20) {
+            nodes { topic { name } }
+          }
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * 分析に使うリポジトリ情報（RESTのレスポンスと同じフィールド名）
+ */
+interface RepositoryInfo {
+  name: string;
+  fork: boolean;
+  description?: string | null;
+  topics?: string[];
+  stargazers_count?: number;
+  forks_count?: number;
+  pushed_at?: string | null;
+  updated_at?: string | null;
+  html_url?: string;
+  language?: string | null;
+  languages?: Record<string, number>; // GraphQLで取得した場合のみ（言語名とバイト数）
+}
+
+/**
+ * 分析に使うプロフィール情報
+ */
+interface ProfileData {
+  user: any;
+  repos: RepositoryInfo[];
+  pinned: string[]; // ピン留めされたリポジトリ名
+}
+
+/**
+ * 自分が所有していないリポジトリへの貢献の集計
+ */
+interface ContributionSummary {
+  pullRequests: number; // 作成したPR数
+  mergedPullRequests: number; // マージされたPR数
+  reviews: number; // レビューしたPR数
+  issues: number; // 作成したIssue数
+  recentEvents: Record<string, number>; // 直近の公開イベントの種類ごとの件数
+  projects: Array<{ name: string; count: number }>; // 貢献先のリポジトリ（件数順）
+}
+
+export class GitHubService implements PlatformService {
+  public readonly platform = Platform.GITHUB;
+  public readonly label = 'GitHub';
+  public readonly description = 'GitHubのプロフィールURL（例: https://github.com/username）';
+  public readonly urlExample = 'https://github.com/username';
 
-export class GitHubService {
   private octokit: Octokit;
+  private hasToken: boolean;
+  private rateLimiter: RateLimiter;
   
-  constructor(token?: string) {
+  constructor(token?: string, rateLimit?: Partial<RateLimiterOptions>) {
     this.octokit = new Octokit({
       auth: token,
     });
+    this.hasToken = Boolean(token);
+    this.rateLimiter = new RateLimiter(this.label, error => this.inspectRateLimitError(error), rateLimit);
+    
+    // 全てのリクエスト（REST・GraphQL）をレート制限のレイヤーに通す
+    this.octokit.hook.wrap('request', async (request, options) => {
+      const resource = this.rateLimitResource(options.url);
+      return this.rateLimiter.run(async () => {
+        const response = await request(options);
+        this.rateLimiter.update(resource, this.readRateLimitHeaders(response.headers));
+        return response;
+      }, resource, options.request?.signal);
+    });
+  }
+
+  /**
+   * リクエスト先のURLからレート制限の種類を判定（REST・検索・GraphQLは別枠）
+   */
+  private rateLimitResource(url: string): string {
+    if (url.startsWith('/graphql')) return 'graphql';
+    if (url.startsWith('/search/')) return 'search';
+    return 'core';
+  }
+
+  /**
+   * レスポンスヘッダーからレート制限の状態を読み取る
+   */
+  private readRateLimitHeaders(headers: Record<string, unknown>): RateLimitInfo {
+    const remaining = headers['x-ratelimit-remaining'];
+    const reset = headers['x-ratelimit-reset'];
+    const retryAfter = headers['retry-after'];
+    
+    return {
+      remaining: remaining !== undefined ? Number(remaining) : undefined,
+      resetAt: reset !== undefined ? new Date(Number(reset) * 1000) : undefined,
+      retryAfterMs: retryAfter !== undefined ? Number(retryAfter) * 1000 : undefined,
+    };
+  }
+
+  /**
+   * エラーがレート制限（一次・二次）によるものか判定
+   */
+  private inspectRateLimitError(error: any): RateLimitInfo | undefined {
+    const status = error?.status;
+    const headers = error?.response?.headers;
+    if ((status !== 403 && status !== 429) || !headers) return undefined;
+    
+    const info = this.readRateLimitHeaders(headers);
+    if (status === 429 || info.remaining === 0 || info.retryAfterMs !== undefined) {
+      return info;
+    }
+    return undefined;
+  }
+
+  /**
+   * GitHubのプロフィールURLかどうかを検証
+   */
+  public validateUrl(url: string): boolean {
+    return /^https?:\/\/(www\.)?github\.com\/[^\/]+\/?$/.test(url);
   }
 
   /**
@@ -24,44 +183,51 @@ export class GitHubService {
   /**
    * GitHubユーザーの情報を取得して分析
    */
-  public async analyze(url: string): Promise<PlatformAnalysis> {
+  public async analyze(url: string, signal?: AbortSignal, onProgress?: ProgressReporter): Promise<PlatformAnalysis> {
     const username = this.extractUsername(url);
     
     try {
-      // ユーザー情報の取得
-      const { data: user } = await this.octokit.users.getByUsername({
-        username,
-      });
-
-      // リポジトリ情報の取得
-      const { data: repos } = await this.octokit.repos.listForUser({
-        username,
-        per_page: 100,
-        sort: 'updated',
-      });
+      // ユーザー情報とリポジトリ情報の取得
+      const { user, repos, pinned } = await this.fetchProfile(username, signal);
+      onProgress?.(`プロフィールと${repos.length}件のリポジトリを取得`);
 
       // 言語情報の集計
       const languages: { [key: string]: number } = {};
       const frameworks: { [key: string]: number } = {};
       const tools: { [key: string]: number } = {};
       const topics: Set<string> = new Set();
+      const scores: TechStackScores = { languages, frameworks, tools };
+      const techEvidence = new EvidenceCollector(Platform.GITHUB);
+      const traitEvidence = new EvidenceCollector(Platform.GITHUB);
+
+      // 主要なリポジトリの依存関係からフレームワークやツールを検出
+      const manifestRepos = await this.analyzeManifests(
+        username, repos, pinned, scores, techEvidence, signal, onProgress
+      );
 
       // リポジトリごとの言語情報を取得
+      onProgress?.('リポジトリの言語情報を集計中');
       for (const repo of repos) {
         if (repo.fork) continue; // フォークしたリポジトリはスキップ
+        signal?.throwIfAborted();
+        const repoUrl = this.repositoryUrl(username, repo);
         
-        // 言語情報の取得
+        // 言語情報の取得（GraphQLで取得済みの場合はそれを使う）
         try {
-          const { data: repoLanguages } = await this.octokit.repos.listLanguages({
+          const repoLanguages = repo.languages ?? (await this.octokit.repos.listLanguages({
             owner: username,
             repo: repo.name,
-          });
+            request: { signal },
+          })).data;
           
           // 言語の使用頻度を集計
-          for (const [lang, bytes] of Object.entries(repoLanguages)) {
+          for (const [language, bytes] of Object.entries(repoLanguages)) {
+            const lang = canonicalLanguage(language);
             languages[lang] = (languages[lang] || 0) + bytes;
+            techEvidence.add(lang, repoUrl, `${repo.name}（${bytes}バイト）`, repo.pushed_at);
           }
         } catch (error) {
+          if (error instanceof RateLimitError) throw error;
           console.error(`Failed to fetch languages for ${repo.name}:`, error);
         }
         
@@ -69,15 +235,20 @@ export class GitHubService {
         if (repo.topics && repo.topics.length > 0) {
           repo.topics.forEach(topic => {
             topics.add(topic);
+            techEvidence.add(topic, repoUrl, `${repo.name}のトピック`, repo.pushed_at);
+            traitEvidence.add(TraitField.INTERESTS, repoUrl, `${repo.name}のトピック: ${topic}`);
             
-            // フレームワークやツールの検出
-            this.categorizeTopics(topic, frameworks, tools);
+            // 依存関係を解析できなかったリポジトリはトピックから推測
+            if (!manifestRepos.has(repo.name)) {
+              this.categorizeTopic(topic, scores, techEvidence, repoUrl, repo.pushed_at);
+            }
           });
         }
       }
 
-      // READMEの分析（オプション）
-      // ...
+      // 他のプロジェクトへの貢献の集計
+      onProgress?.('他のプロジェクトへの貢献を集計中');
+      const contributions = await this.analyzeContributions(user.login || username, signal);
 
       // 技術スタックの構築
       const techStack: Partial<TechStack> = {
@@ -85,7 +256,13 @@ export class GitHubService {
         frameworks,
         tools,
         topics: Array.from(topics),
+        evidence: techEvidence.toRecord(),
+        timeline: techEvidence.toTimeline(),
       };
+      
+      if (user.bio) {
+        traitEvidence.add(TraitField.ACTIVITIES, url, user.bio);
+      }
 
       // 人となりの分析
       const personality: Partial<Personality> = {
@@ -94,10 +271,13 @@ export class GitHubService {
           user.bio || '',
           `${repos.length}個のリポジトリを所有`,
           user.company ? `${user.company}に所属` : '',
+          pinned.length > 0 ? `ピン留めしたリポジトリ: ${pinned.join('、')}` : '',
+          ...this.describeContributions(contributions),
         ].filter(Boolean),
         communication: {
-          style: this.analyzeCommStyle(user, repos),
+          style: this.analyzeCommStyle(user, repos, contributions, traitEvidence),
         },
+        evidence: traitEvidence.toRecord(),
       };
 
       return {
@@ -105,62 +285,408 @@ export class GitHubService {
         url,
         techStack,
         personality,
-        rawData: { user, repos },
+        rawData: {
+          user,
+          repos: repos.map(({ languages, ...repo }) => repo),
+          pinned,
+          contributions,
+        },
       };
     } catch (error) {
+      if (error instanceof PlatformError) throw error;
+      if (isNotFound(error)) {
+        throw new PlatformError(AnalysisStatus.NOT_FOUND, `GitHubユーザーが見つかりません: ${username}`);
+      }
       console.error('GitHub API error:', error);
       throw new Error(`GitHub分析中にエラーが発生しました: ${error}`);
     }
   }
 
   /**
-   * トピックをフレームワークとツールに分類
+   * Organizationのメンバーのユーザー名を取得
+   *
+   * トークンがある場合は非公開のメンバーも含む（トークンの権限で見える範囲）
    */
-  private categorizeTopics(
-    topic: string, 
-    frameworks: { [key: string]: number }, 
-    tools: { [key: string]: number }
-  ): void {
-    // 一般的なフレームワークのリスト
-    const frameworkList = [
-      'react', 'vue', 'angular', 'svelte', 'next', 'nuxt', 'gatsby',
-      'express', 'koa', 'nest', 'fastify', 'hapi',
-      'django', 'flask', 'fastapi', 'spring', 'rails', 'laravel',
-      'tensorflow', 'pytorch', 'keras',
-    ];
+  public async listOrganizationMembers(org: string, limit: number, signal?: AbortSignal): Promise<string[]> {
+    try {
+      const members: string[] = [];
+      const list = this.hasToken ? this.octokit.orgs.listMembers : this.octokit.orgs.listPublicMembers;
+
+      for (let page = 1; members.length < limit; page++) {
+        const { data } = await list({ org, per_page: 100, page, request: { signal } });
+        members.push(...data.map(member => member.login));
+        if (data.length < 100) break;
+      }
+
+      return members.slice(0, limit);
+    } catch (error) {
+      if (error instanceof PlatformError) throw error;
+      if (isNotFound(error)) {
+        throw new PlatformError(AnalysisStatus.NOT_FOUND, `GitHubのOrganizationが見つかりません: ${org}`);
+      }
+      console.error('GitHub API error:', error);
+      throw new Error(`GitHubのOrganizationのメンバー取得中にエラーが発生しました: ${error}`);
+    }
+  }
+
+  /**
+   * プロフィールとリポジトリを取得
+   *
+   * GraphQL APIは認証が必要なため、トークンがない場合やエラー時はREST APIを使う
+   */
+  private async fetchProfile(username: string, signal?: AbortSignal): Promise<ProfileData> {
+    if (this.hasToken) {
+      try {
+        return await this.fetchProfileGraphQL(username, signal);
+      } catch (error) {
+        if (error instanceof RateLimitError || signal?.aborted) throw error;
+        console.error('GitHub GraphQL error, falling back to REST:', error);
+      }
+    }
+    return this.fetchProfileRest(username, signal);
+  }
+
+  /**
+   * GraphQL APIで数回のリクエストにまとめて取得
+   */
+  private async fetchProfileGraphQL(username: string, signal?: AbortSignal): Promise<ProfileData> {
+    const repos: RepositoryInfo[] = [];
+    let user: any;
+    let pinned: string[] = [];
+    let cursor: string | null = null;
+    
+    for (let page = 0; page < MAX_GRAPHQL_PAGES; page++) {
+      const response: { user: any } = await this.octokit.graphql(PROFILE_QUERY, {
+        login: username,
+        cursor,
+        request: { signal },
+      });
+      
+      if (!response.user) {
+        throw new Error(`ユーザーが見つかりません: ${username}`);
+      }
+      
+      if (!user) {
+        const { repositories, pinnedItems, followers, websiteUrl, ...profile } = response.user;
+        user = { ...profile, blog: websiteUrl, followers: followers.totalCount };
+        pinned = pinnedItems.nodes.map((node: any) => node.name).filter(Boolean);
+      }
+      
+      const { nodes, pageInfo } = response.user.repositories;
+      for (const node of nodes) {
+        repos.push({
+          name: node.name,
+          fork: node.isFork,
+          description: node.description,
+          topics: node.repositoryTopics.nodes.map((n: any) => n.topic.name),
+          stargazers_count: node.stargazerCount,
+          forks_count: node.forkCount,
+          pushed_at: node.pushedAt,
+          updated_at: node.updatedAt,
+          html_url: node.url,
+          language: node.primaryLanguage?.name ?? null,
+          languages: Object.fromEntries(
+            node.languages.edges.map((edge: any) => [edge.node.name, edge.size])
+          ),
+        });
+      }
+      
+      if (!pageInfo.hasNextPage) break;
+      cursor = pageInfo.endCursor;
+    }
+    
+    return { user, repos, pinned };
+  }
+
+  /**
+   * REST APIで取得（言語情報はリポジトリごとに別途取得する）
+   */
+  private async fetchProfileRest(username: string, signal?: AbortSignal): Promise<ProfileData> {
+    const { data: user } = await this.octokit.users.getByUsername({
+      username,
+      request: { signal },
+    });
+
+    const { data: repos } = await this.octokit.repos.listForUser({
+      username,
+      per_page: 100,
+      sort: 'updated',
+      request: { signal },
+    });
     
-    // 一般的なツールのリスト
-    const toolList = [
-      'webpack', 'babel', 'eslint', 'prettier', 'jest', 'mocha', 'cypress',
-      'docker', 'kubernetes', 'aws', 'azure', 'gcp', 'firebase',
-      'graphql', 'apollo', 'redux', 'mobx', 'zustand',
-      'git', 'github', 'gitlab', 'bitbucket',
-    ];
+    return { user, repos, pinned: [] };
+  }
+
+  /**
+   * 公開イベントと検索結果から、他者のリポジトリへのPR・レビュー・Issueを集計
+   */
+  private async analyzeContributions(username: string, signal?: AbortSignal): Promise<ContributionSummary | undefined> {
+    try {
+      const search = (q: string, perPage: number) =>
+        this.octokit.request('GET /search/issues', { q, per_page: perPage, request: { signal } });
+      
+      const { data: pullRequests } = await search(`type:pr author:${username} -user:${username}`, 100);
+      const { data: merged } = await search(`type:pr author:${username} -user:${username} is:merged`, 1);
+      const { data: reviews } = await search(`type:pr reviewed-by:${username} -author:${username} -user:${username}`, 1);
+      const { data: issues } = await search(`type:issue author:${username} -user:${username}`, 1);
+      
+      // 貢献先のリポジトリを集計
+      const projectCounts: Record<string, number> = {};
+      for (const item of pullRequests.items) {
+        const name = item.repository_url.replace('https://api.github.com/repos/', '');
+        projectCounts[name] = (projectCounts[name] || 0) + 1;
+      }
+      
+      // 直近の公開イベントのうち、自分以外のリポジトリに対するものを集計（ユーザー名は大文字小文字を区別しない）
+      const recentEvents: Record<string, number> = {};
+      const ownPrefix = `${username.toLowerCase()}/`;
+      const { data: events } = await this.octokit.activity.listPublicEventsForUser({
+        username,
+        per_page: 100,
+        request: { signal },
+      });
+      for (const event of events) {
+        if (!event.type || event.repo.name.toLowerCase().startsWith(ownPrefix)) continue;
+        recentEvents[event.type] = (recentEvents[event.type] || 0) + 1;
+        if (event.type === 'PullRequestReviewEvent' || event.type === 'PullRequestReviewCommentEvent') {
+          projectCounts[event.repo.name] = (projectCounts[event.repo.name] || 0) + 1;
+        }
+      }
+      
+      return {
+        pullRequests: pullRequests.total_count,
+        mergedPullRequests: merged.total_count,
+        reviews: reviews.total_count,
+        issues: issues.total_count,
+        recentEvents,
+        projects: Object.entries(projectCounts)
+          .sort((a, b) => b[1] - a[1])
+          .map(([name, count]) => ({ name, count })),
+      };
+    } catch (error) {
+      if (error instanceof RateLimitError || signal?.aborted) throw error;
+      console.error('Failed to analyze contributions:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * 貢献の集計を活動内容の文章に変換
+   */
+  private describeContributions(contributions?: ContributionSummary): string[] {
+    if (!contributions) return [];
     
-    if (frameworkList.some(fw => topic.includes(fw))) {
-      frameworks[topic] = (frameworks[topic] || 0) + 1;
-    } else if (toolList.some(tool => topic.includes(tool))) {
-      tools[topic] = (tools[topic] || 0) + 1;
+    const descriptions: string[] = [];
+    
+    if (contributions.pullRequests > 0) {
+      const mergeRate = Math.round(contributions.mergedPullRequests / contributions.pullRequests * 100);
+      descriptions.push(`他のプロジェクトに${contributions.pullRequests}件のPRを作成（マージ率${mergeRate}%）`);
+    }
+    if (contributions.reviews > 0) {
+      descriptions.push(`他者のPRを${contributions.reviews}件レビュー`);
+    }
+    if (contributions.issues > 0) {
+      descriptions.push(`他のプロジェクトに${contributions.issues}件のIssueを作成`);
     }
+    if (contributions.projects.length > 0) {
+      const projects = contributions.projects.slice(0, 5).map(p => `${p.name}（${p.count}件）`);
+      descriptions.push(`主な貢献先: ${projects.join('、')}`);
+    }
+    
+    return descriptions;
+  }
+
+  /**
+   * ピン留め・スター数・更新日時の上位リポジトリのマニフェストを解析
+   *
+   * 依存関係を解析できたリポジトリ名を返す
+   */
+  private async analyzeManifests(
+    username: string,
+    repos: RepositoryInfo[],
+    pinned: string[],
+    scores: TechStackScores,
+    evidence: EvidenceCollector,
+    signal?: AbortSignal,
+    onProgress?: ProgressReporter
+  ): Promise<Set<string>> {
+    const analyzed = new Set<string>();
+    const targets = repos
+      .filter(repo => !repo.fork)
+      .sort((a, b) =>
+        Number(pinned.includes(b.name)) - Number(pinned.includes(a.name)) ||
+        (b.stargazers_count || 0) - (a.stargazers_count || 0) ||
+        new Date(b.pushed_at || 0).getTime() - new Date(a.pushed_at || 0).getTime()
+      )
+      .slice(0, MAX_MANIFEST_REPOS);
+    
+    for (const [index, repo] of targets.entries()) {
+      signal?.throwIfAborted();
+      onProgress?.(`依存関係を解析中 (${index + 1}/${targets.length}): ${repo.name}`);
+      
+      try {
+        const paths = await this.listManifestPaths(username, repo.name, signal);
+        if (paths.length === 0) continue;
+        
+        // 同じリポジトリ内の重複は1回として数える
+        const repoTechnologies = new Map<string, Technology>();
+        
+        for (const path of paths) {
+          const content = await this.getFileContent(username, repo.name, path, signal);
+          if (!content) continue;
+          
+          const detected = detectTechnologies(path, content);
+          detected.forEach(technology => repoTechnologies.set(technology.name, technology));
+          
+          // 検出元のファイルを根拠として記録
+          const fileUrl = `${this.repositoryUrl(username, repo)}/blob/HEAD/${path}`;
+          detected.forEach(technology => evidence.add(technology.name, fileUrl, `${repo.name}/${path}`, repo.pushed_at));
+        }
+        
+        repoTechnologies.forEach(technology => addTechnology(scores, technology));
+        analyzed.add(repo.name);
+      } catch (error) {
+        if (error instanceof RateLimitError || signal?.aborted) throw error;
+        console.error(`Failed to analyze manifests for ${repo.name}:`, error);
+      }
+    }
+    
+    return analyzed;
+  }
+
+  /**
+   * リポジトリ直下のマニフェスト・ロックファイル・READMEとCIワークフローを列挙
+   */
+  private async listManifestPaths(owner: string, repo: string, signal?: AbortSignal): Promise<string[]> {
+    const { data: root } = await this.octokit.repos.getContent({ owner, repo, path: '', request: { signal } });
+    if (!Array.isArray(root)) return [];
+    
+    const paths = root
+      .filter(entry => entry.type === 'file' && isManifestFile(entry.path))
+      .map(entry => entry.path);
+    
+    if (root.some(entry => entry.type === 'dir' && entry.path === '.github')) {
+      try {
+        const { data: workflows } = await this.octokit.repos.getContent({
+          owner,
+          repo,
+          path: '.github/workflows',
+          request: { signal },
+        });
+        if (Array.isArray(workflows)) {
+          paths.push(...workflows.map(entry => entry.path).filter(isManifestFile));
+        }
+      } catch (error) {
+        // ワークフローがないリポジトリは無視
+        if (!isNotFound(error)) throw error;
+      }
+    }
+    
+    return paths;
+  }
+
+  /**
+   * ファイルの内容を取得（取得できない場合はundefined）
+   */
+  private async getFileContent(
+    owner: string,
+    repo: string,
+    path: string,
+    signal?: AbortSignal
+  ): Promise<string | undefined> {
+    try {
+      const { data } = await this.octokit.repos.getContent({ owner, repo, path, request: { signal } });
+      if (Array.isArray(data) || data.type !== 'file' || !('content' in data)) {
+        return undefined;
+      }
+      return Buffer.from(data.content, 'base64').toString('utf-8');
+    } catch (error) {
+      // 存在しないファイルだけを無視し、レート制限や中断などは呼び出し元に伝える
+      if (!isNotFound(error)) throw error;
+      console.error(`Failed to fetch ${repo}/${path}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * トピックをフレームワークとツールに分類
+   *
+   * 言語はリポジトリの言語情報から集計するため、トピックからは数えない
+   */
+  private categorizeTopic(
+    topic: string,
+    scores: TechStackScores,
+    evidence: EvidenceCollector,
+    repoUrl: string,
+    pushedAt?: string | null
+  ): void {
+    const technology = classifyTerm(topic);
+    if (!technology || technology.category === 'language') return;
+    
+    addTechnology(scores, technology);
+    evidence.add(technology.name, repoUrl, `トピック: ${topic}`, pushedAt);
   }
 
   /**
    * コミュニケーションスタイルの分析
+   *
+   * 判定の決め手になった数値やリポジトリを根拠として記録する
    */
-  private analyzeCommStyle(user: any, repos: any[]): string {
+  private analyzeCommStyle(
+    user: any,
+    repos: any[],
+    contributions: ContributionSummary | undefined,
+    evidence: EvidenceCollector
+  ): string {
+    const profileUrl = user.html_url || `https://github.com/${user.login}`;
+    
+    // 他者のプロジェクトでの活動を優先して評価
+    if (contributions) {
+      const mergeRate = contributions.pullRequests > 0
+        ? contributions.mergedPullRequests / contributions.pullRequests
+        : 0;
+      
+      if (contributions.reviews >= 50) {
+        evidence.add(TraitField.STYLE, profileUrl, `他のプロジェクトで${contributions.reviews}件のPRをレビュー`);
+        return 'コードレビューを通じて積極的に協働するスタイル';
+      } else if (contributions.pullRequests >= 20 && mergeRate >= 0.6) {
+        evidence.add(
+          TraitField.STYLE,
+          profileUrl,
+          `他のプロジェクトに${contributions.pullRequests}件のPRを作成し、${contributions.mergedPullRequests}件がマージ`
+        );
+        return 'OSSへの貢献を通じて協調的に開発するスタイル';
+      } else if (contributions.issues >= 20) {
+        evidence.add(TraitField.STYLE, profileUrl, `他のプロジェクトに${contributions.issues}件のIssueを作成`);
+        return '課題の報告や議論に積極的に参加するスタイル';
+      }
+    }
+    
     // 簡易的な分析ロジック
-    const hasDetailedReadmes = repos.some(r => r.description && r.description.length > 100);
-    const hasMultipleContributors = repos.some(r => r.contributors_url && r.contributors_url.length > 1);
-    const hasManyStars = repos.some(r => r.stargazers_count > 50);
+    const detailedRepo = repos.find(r => r.description && r.description.length > 100);
+    const contributedRepo = repos.find(r => r.contributors_url && r.contributors_url.length > 1);
+    const starredRepo = repos.find(r => r.stargazers_count > 50);
     
-    if (hasManyStars && hasDetailedReadmes) {
+    if (starredRepo && detailedRepo) {
+      evidence.add(TraitField.STYLE, this.repositoryUrl(user.login, starredRepo), `${starredRepo.name}（スター${starredRepo.stargazers_count}件）`);
+      evidence.add(TraitField.STYLE, this.repositoryUrl(user.login, detailedRepo), detailedRepo.description);
       return 'オープンで詳細なドキュメントを重視するスタイル';
-    } else if (hasMultipleContributors) {
+    } else if (contributedRepo) {
+      evidence.add(TraitField.STYLE, this.repositoryUrl(user.login, contributedRepo), `${contributedRepo.name}のコントリビューター`);
       return '協調的なスタイル';
     } else if (repos.length > 20) {
+      evidence.add(TraitField.STYLE, profileUrl, `${repos.length}個のリポジトリを所有`);
       return '多くのプロジェクトに取り組む探究心旺盛なスタイル';
     }
     
+    evidence.add(TraitField.STYLE, profileUrl, `${repos.length}個のリポジトリを所有し、他のプロジェクトへの目立った貢献なし`);
     return '個人的な開発に集中するスタイル';
   }
+
+  /**
+   * リポジトリのURL（APIの結果に含まれない場合はユーザー名から組み立てる）
+   */
+  private repositoryUrl(owner: string, repo: { name: string; html_url?: string }): string {
+    return repo.html_url || `https://github.com/${owner}/${repo.name}`;
+  }
 }
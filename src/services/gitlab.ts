@@ -0,0 +1,217 @@
+import axios, { AxiosInstance } from 'axios';
+import { AnalysisStatus, Platform, PlatformAnalysis, PlatformService, ProgressReporter, TechStack, Personality } from '../types.js';
+import { isNotFound, PlatformError } from '../errors.js';
+import { EvidenceCollector, TraitField } from '../evidence.js';
+import { addTechnology, canonicalLanguage, classifyTerm, TechStackScores } from '../taxonomy.js';
+
+export class GitLabService implements PlatformService {
+  public readonly platform = Platform.GITLAB;
+  public readonly label = 'GitLab';
+  public readonly description: string;
+  public readonly urlExample: string;
+
+  private baseUrl: string;
+  private client: AxiosInstance;
+  
+  constructor(baseUrl: string = 'https://gitlab.com', token?: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.urlExample = `${this.baseUrl}/username`;
+    this.description = `GitLabのプロフィールURL（例: ${this.urlExample}）`;
+    this.client = axios.create({
+      baseURL: `${this.baseUrl}/api/v4`,
+      headers: token ? { 'PRIVATE-TOKEN': token } : {},
+    });
+  }
+
+  /**
+   * 設定されたGitLabインスタンスのプロフィールURLかどうかを検証
+   */
+  public validateUrl(url: string): boolean {
+    try {
+      const target = new URL(url);
+      const base = new URL(this.baseUrl);
+      const basePath = base.pathname.replace(/\/+$/, '');
+      // basePathは設定値のため正規表現には埋め込まず、文字列として前方一致で比較する
+      return target.host === base.host &&
+        target.pathname.startsWith(`${basePath}/`) &&
+        /^[^/]+\/?$/.test(target.pathname.slice(basePath.length + 1));
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * GitLabのURLからユーザー名を抽出
+   */
+  private extractUsername(url: string): string {
+    const basePath = new URL(this.baseUrl).pathname.replace(/\/+$/, '');
+    const match = new URL(url).pathname.slice(basePath.length).match(/^\/([^\/]+)/);
+    if (!match) {
+      throw new Error('Invalid GitLab URL');
+    }
+    return match[1];
+  }
+
+  /**
+   * GitLabユーザーの情報を取得して分析
+   */
+  public async analyze(url: string, signal?: AbortSignal, onProgress?: ProgressReporter): Promise<PlatformAnalysis> {
+    const username = this.extractUsername(url);
+    
+    try {
+      // ユーザー情報の取得
+      const { data: users } = await this.client.get('/users', {
+        params: { username },
+        signal,
+      });
+      if (!users.length) {
+        throw new PlatformError(AnalysisStatus.NOT_FOUND, `GitLabユーザーが見つかりません: ${username}`);
+      }
+      const user = users[0];
+
+      // プロジェクト情報の取得
+      const { data: projects } = await this.client.get(`/users/${user.id}/projects`, {
+        params: {
+          owned: true,
+          per_page: 100,
+          order_by: 'last_activity_at',
+        },
+        signal,
+      });
+
+      // 言語情報の集計
+      const languages: { [key: string]: number } = {};
+      const frameworks: { [key: string]: number } = {};
+      const tools: { [key: string]: number } = {};
+      const topics: Set<string> = new Set();
+      const scores: TechStackScores = { languages, frameworks, tools };
+      const techEvidence = new EvidenceCollector(Platform.GITLAB);
+      const traitEvidence = new EvidenceCollector(Platform.GITLAB);
+      const ownProjects = projects.filter((project: any) => !project.forked_from_project);
+
+      // プロジェクトごとの言語情報を取得
+      for (const [index, project] of ownProjects.entries()) {
+        signal?.throwIfAborted();
+        onProgress?.(`プロジェクトの言語情報を取得中 (${index + 1}/${ownProjects.length})`);
+        
+        // 言語情報の取得（GitLabはバイト数ではなく割合を返す）
+        try {
+          const { data: projectLanguages } = await this.client.get<Record<string, number>>(
+            `/projects/${project.id}/languages`,
+            { signal }
+          );
+          
+          // 言語の使用割合を集計
+          for (const [language, percentage] of Object.entries(projectLanguages)) {
+            const lang = canonicalLanguage(language);
+            languages[lang] = (languages[lang] || 0) + percentage;
+            techEvidence.add(lang, project.web_url, `${project.path_with_namespace}（${percentage}%）`, project.last_activity_at);
+          }
+        } catch (error) {
+          console.error(`Failed to fetch languages for ${project.path_with_namespace}:`, error);
+        }
+        
+        // トピックの取得（古いバージョンのGitLabはtag_list）
+        const projectTopics: string[] = project.topics || project.tag_list || [];
+        projectTopics.forEach(topic => {
+          const normalized = topic.toLowerCase();
+          topics.add(normalized);
+          techEvidence.add(normalized, project.web_url, `${project.path_with_namespace}のトピック`, project.last_activity_at);
+          traitEvidence.add(TraitField.INTERESTS, project.web_url, `${project.path_with_namespace}のトピック: ${normalized}`);
+          
+          // フレームワークやツールの検出
+          this.categorizeTopic(normalized, scores, techEvidence, project.web_url, project.last_activity_at);
+        });
+      }
+
+      // 技術スタックの構築
+      const techStack: Partial<TechStack> = {
+        languages,
+        frameworks,
+        tools,
+        topics: Array.from(topics),
+        evidence: techEvidence.toRecord(),
+        timeline: techEvidence.toTimeline(),
+      };
+      
+      if (user.bio) {
+        traitEvidence.add(TraitField.ACTIVITIES, url, user.bio);
+      }
+
+      // 人となりの分析
+      const personality: Partial<Personality> = {
+        interests: Array.from(topics).slice(0, 10), // トップ10のトピックを興味として扱う
+        activities: [
+          user.bio || '',
+          `${ownProjects.length}個のプロジェクトを所有`,
+          user.organization ? `${user.organization}に所属` : '',
+        ].filter(Boolean),
+        communication: {
+          style: this.analyzeCommStyle(url, ownProjects, traitEvidence),
+        },
+        evidence: traitEvidence.toRecord(),
+      };
+
+      return {
+        platform: Platform.GITLAB,
+        url,
+        techStack,
+        personality,
+        rawData: { user, projects: ownProjects },
+      };
+    } catch (error) {
+      if (error instanceof PlatformError) throw error;
+      if (isNotFound(error)) {
+        throw new PlatformError(AnalysisStatus.NOT_FOUND, `GitLabユーザーが見つかりません: ${username}`);
+      }
+      console.error('GitLab API error:', error);
+      throw new Error(`GitLab分析中にエラーが発生しました: ${error}`);
+    }
+  }
+
+  /**
+   * トピックをフレームワークとツールに分類
+   *
+   * 言語はプロジェクトの言語情報から集計するため、トピックからは数えない
+   */
+  private categorizeTopic(
+    topic: string,
+    scores: TechStackScores,
+    evidence: EvidenceCollector,
+    projectUrl: string,
+    lastActivityAt?: string
+  ): void {
+    const technology = classifyTerm(topic);
+    if (!technology || technology.category === 'language') return;
+    
+    addTechnology(scores, technology);
+    evidence.add(technology.name, projectUrl, `トピック: ${topic}`, lastActivityAt);
+  }
+
+  /**
+   * コミュニケーションスタイルの分析
+   *
+   * 判定の決め手になったプロジェクトを根拠として記録する
+   */
+  private analyzeCommStyle(profileUrl: string, projects: any[], evidence: EvidenceCollector): string {
+    // 簡易的な分析ロジック
+    const detailedProject = projects.find(p => p.description && p.description.length > 100);
+    const forkedProject = projects.find(p => p.forks_count > 0);
+    const starredProject = projects.find(p => p.star_count > 50);
+    
+    if (starredProject && detailedProject) {
+      evidence.add(TraitField.STYLE, starredProject.web_url, `${starredProject.path_with_namespace}（スター${starredProject.star_count}件）`);
+      evidence.add(TraitField.STYLE, detailedProject.web_url, detailedProject.description);
+      return 'オープンで詳細なドキュメントを重視するスタイル';
+    } else if (forkedProject) {
+      evidence.add(TraitField.STYLE, forkedProject.web_url, `${forkedProject.path_with_namespace}（フォーク${forkedProject.forks_count}件）`);
+      return '協調的なスタイル';
+    } else if (projects.length > 20) {
+      evidence.add(TraitField.STYLE, profileUrl, `${projects.length}個のプロジェクトを所有`);
+      return '多くのプロジェクトに取り組む探究心旺盛なスタイル';
+    }
+    
+    evidence.add(TraitField.STYLE, profileUrl, `${projects.length}個のプロジェクトを所有し、他者によるフォークなし`);
+    return '個人的な開発に集中するスタイル';
+  }
+}
@@ -0,0 +1,287 @@
+import { findTechnologiesInText, findTechnology, Technology } from '../taxonomy.js';
+
+/**
+ * 依存関係の名前から技術を判定するルール
+ *
+ * patternが文字列の場合は完全一致、正規表現の場合はパターン一致。nameは技術の辞書の正規の表記
+ */
+const DEPENDENCY_RULES: Array<{ pattern: string | RegExp; name: string }> = [
+  // JavaScript / TypeScript
+  { pattern: 'react', name: 'React' },
+  { pattern: 'vue', name: 'Vue.js' },
+  { pattern: '@angular/core', name: 'Angular' },
+  { pattern: 'svelte', name: 'Svelte' },
+  { pattern: 'next', name: 'Next.js' },
+  { pattern: 'nuxt', name: 'Nuxt' },
+  { pattern: 'gatsby', name: 'Gatsby' },
+  { pattern: 'express', name: 'Express' },
+  { pattern: 'koa', name: 'Koa' },
+  { pattern: '@nestjs/core', name: 'NestJS' },
+  { pattern: 'fastify', name: 'Fastify' },
+  { pattern: '@hapi/hapi', name: 'hapi' },
+  { pattern: 'webpack', name: 'webpack' },
+  { pattern: 'vite', name: 'Vite' },
+  { pattern: '@babel/core', name: 'Babel' },
+  { pattern: 'eslint', name: 'ESLint' },
+  { pattern: 'prettier', name: 'Prettier' },
+  { pattern: 'jest', name: 'Jest' },
+  { pattern: 'vitest', name: 'Vitest' },
+  { pattern: 'mocha', name: 'Mocha' },
+  { pattern: 'cypress', name: 'Cypress' },
+  { pattern: '@playwright/test', name: 'Playwright' },
+  { pattern: 'graphql', name: 'GraphQL' },
+  { pattern: /^@apollo\/|^apollo-server/, name: 'Apollo' },
+  { pattern: /^(redux|@reduxjs\/toolkit)$/, name: 'Redux' },
+  { pattern: 'mobx', name: 'MobX' },
+  { pattern: 'zustand', name: 'Zustand' },
+  { pattern: /^(firebase|firebase-admin)$/, name: 'Firebase' },
+  { pattern: /^(aws-sdk|@aws-sdk\/|aws-cdk-lib$|boto3$)/, name: 'AWS' },
+  { pattern: /^@google-cloud\/|^google-cloud-/, name: 'Google Cloud' },
+  { pattern: /^@azure\/|^azure-/, name: 'Azure' },
+  { pattern: 'prisma', name: 'Prisma' },
+  // Python
+  { pattern: 'django', name: 'Django' },
+  { pattern: 'flask', name: 'Flask' },
+  { pattern: 'fastapi', name: 'FastAPI' },
+  { pattern: 'tensorflow', name: 'TensorFlow' },
+  { pattern: 'torch', name: 'PyTorch' },
+  { pattern: 'keras', name: 'Keras' },
+  { pattern: 'pytest', name: 'pytest' },
+  { pattern: 'sqlalchemy', name: 'SQLAlchemy' },
+  // Ruby
+  { pattern: 'rails', name: 'Ruby on Rails' },
+  { pattern: 'sinatra', name: 'Sinatra' },
+  { pattern: /^rspec(-rails)?$/, name: 'RSpec' },
+  // PHP
+  { pattern: 'laravel/framework', name: 'Laravel' },
+  // Java / Kotlin
+  { pattern: /^org\.springframework(\.boot)?:/, name: 'Spring' },
+  { pattern: /^org\.junit/, name: 'JUnit' },
+  // Go
+  { pattern: 'github.com/gin-gonic/gin', name: 'Gin' },
+  { pattern: /^github\.com\/labstack\/echo/, name: 'Echo' },
+  { pattern: /^github\.com\/gofiber\/fiber(\/v\d+)?$/, name: 'Fiber' },
+  // Rust
+  { pattern: 'actix-web', name: 'actix-web' },
+  { pattern: 'axum', name: 'Axum' },
+  { pattern: 'rocket', name: 'Rocket' },
+  { pattern: 'tokio', name: 'Tokio' },
+  // CI
+  { pattern: /^docker\//, name: 'Docker' },
+  { pattern: /^aws-actions\//, name: 'AWS' },
+  { pattern: /^google-github-actions\//, name: 'Google Cloud' },
+  { pattern: /^azure\//, name: 'Azure' },
+];
+
+/**
+ * 解析対象のマニフェストファイルかどうかを判定
+ *
+ * 依存関係を記述するファイルに加え、ロックファイルとREADMEも補助的な手がかりとして扱う
+ */
+export function isManifestFile(path: string): boolean {
+  const name = path.split('/').pop() || '';
+  return [
+    'package.json', 'requirements.txt', 'pyproject.toml', 'go.mod', 'Cargo.toml',
+    'Gemfile', 'composer.json', 'pom.xml', 'build.gradle', 'build.gradle.kts',
+    'package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'poetry.lock', 'Cargo.lock',
+    'Gemfile.lock', 'composer.lock',
+  ].includes(name) ||
+    isReadme(name) ||
+    /^Dockerfile/.test(name) ||
+    /^\.github\/workflows\/[^/]+\.ya?ml$/.test(path);
+}
+
+/**
+ * READMEファイルかどうかを判定
+ */
+function isReadme(name: string): boolean {
+  return /^readme(\.(md|markdown|rst|txt))?$/i.test(name);
+}
+
+/**
+ * マニフェストファイルから依存関係の名前を抽出
+ */
+export function extractDependencies(path: string, content: string): string[] {
+  const name = path.split('/').pop() || '';
+  
+  switch (name) {
+    case 'package.json':
+    case 'composer.json': {
+      try {
+        const manifest = JSON.parse(content);
+        return ['dependencies', 'devDependencies', 'peerDependencies', 'require', 'require-dev']
+          .flatMap(field => Object.keys(manifest[field] || {}));
+      } catch (error) {
+        return [];
+      }
+    }
+    case 'requirements.txt':
+      return content.split(/\r?\n/)
+        .map(line => line.replace(/#.*$/, '').trim())
+        .filter(line => line && !line.startsWith('-'))
+        .map(line => line.split(/[<>=~!;\[\s]/)[0].toLowerCase());
+    case 'pyproject.toml':
+      return [
+        // PEP 621形式の dependencies = ["name>=1.0", ...]
+        ...tomlArrayStrings(content, /^\s*dependencies\s*=\s*\[/gm)
+          .map(dependency => dependency.match(/^\s*([A-Za-z0-9_.\-]+)/)?.[1].toLowerCase())
+          .filter((dependency): dependency is string => dependency !== undefined),
+        // Poetry形式の [tool.poetry.dependencies] セクション
+        ...tomlSectionKeys(content, /^\[tool\.poetry\.(dev-)?(group\.[^.]+\.)?dependencies\]$/),
+      ];
+    case 'Cargo.toml':
+      return tomlSectionKeys(content, /^\[(dev-|build-)?dependencies\]$/);
+    case 'go.mod':
+      return Array.from(content.matchAll(/^\s*(?:require\s+)?([a-z0-9.\-]+\.[a-z]+\/[^\s]+)\s+v[\d.]/gm))
+        .map(match => match[1]);
+    case 'package-lock.json': {
+      try {
+        const lockfile = JSON.parse(content);
+        // lockfileVersion 2以降は packages の "node_modules/name" キー、1は dependencies のキー
+        return [
+          ...Object.keys(lockfile.packages || {})
+            .map(key => key.split('node_modules/').pop() || '')
+            .filter(Boolean),
+          ...Object.keys(lockfile.dependencies || {}),
+        ];
+      } catch (error) {
+        return [];
+      }
+    }
+    case 'composer.lock': {
+      try {
+        const lockfile = JSON.parse(content);
+        return [...(lockfile.packages || []), ...(lockfile['packages-dev'] || [])]
+          .map((pkg: { name?: string }) => pkg.name || '')
+          .filter(Boolean);
+      } catch (error) {
+        return [];
+      }
+    }
+    case 'yarn.lock':
+      // "react@^18.2.0", "@babel/core@npm:^7.0.0": のようなエントリの見出し行
+      return Array.from(content.matchAll(/^"?(@?[^@\s"#][^@\s"]*)@/gm)).map(match => match[1]);
+    case 'pnpm-lock.yaml':
+      // packages: 以下の /react@18.2.0: や '@babel/core@7.0.0': のようなキー
+      return Array.from(content.matchAll(/^ {2}['"]?\/?(@?[^@\s'"/]+(?:\/[^@\s'"]+)?)@/gm)).map(match => match[1]);
+    case 'poetry.lock':
+    case 'Cargo.lock':
+      return Array.from(content.matchAll(/^\[\[package\]\]\s*\r?\nname\s*=\s*"([^"]+)"/gm))
+        .map(match => match[1].toLowerCase());
+    case 'Gemfile.lock':
+      // specs: 以下の "    rails (7.0.0)" のような行
+      return Array.from(content.matchAll(/^ {4}([A-Za-z0-9_.\-]+) \(/gm)).map(match => match[1]);
+    case 'Gemfile':
+      return Array.from(content.matchAll(/^\s*gem\s+['"]([^'"]+)['"]/gm)).map(match => match[1]);
+    case 'pom.xml':
+      return Array.from(content.matchAll(/<dependency>[\s\S]*?<groupId>([^<]+)<\/groupId>[\s\S]*?<artifactId>([^<]+)<\/artifactId>/g))
+        .map(match => `${match[1].trim()}:${match[2].trim()}`);
+    case 'build.gradle':
+    case 'build.gradle.kts':
+      return Array.from(content.matchAll(/["']([\w.\-]+:[\w.\-]+)(?::[^"']*)?["']/g)).map(match => match[1]);
+  }
+  
+  // CIワークフローで使用しているアクション
+  if (/\.ya?ml$/.test(name)) {
+    return Array.from(content.matchAll(/uses:\s*["']?([^@\s"']+)/g)).map(match => match[1]);
+  }
+  
+  return [];
+}
+
+/**
+ * TOMLの配列に含まれる文字列を抽出
+ *
+ * startは配列の開き括弧までに一致する正規表現。"fastapi[all]" のように文字列内に括弧があっても配列の終わりとはみなさない
+ */
+function tomlArrayStrings(content: string, start: RegExp): string[] {
+  const values: string[] = [];
+  
+  for (const match of content.matchAll(start)) {
+    let quote: string | undefined;
+    let value = '';
+    
+    for (let i = (match.index ?? 0) + match[0].length; i < content.length; i++) {
+      const char = content[i];
+      
+      if (quote) {
+        if (char === '\\' && quote === '"') {
+          value += content[++i] ?? '';
+        } else if (char === quote) {
+          values.push(value);
+          quote = undefined;
+        } else {
+          value += char;
+        }
+      } else if (char === '"' || char === "'") {
+        quote = char;
+        value = '';
+      } else if (char === '#') {
+        // 行末までのコメントを読み飛ばす
+        while (i < content.length && content[i] !== '\n') i++;
+      } else if (char === ']') {
+        break;
+      }
+    }
+  }
+  
+  return values;
+}
+
+/**
+ * TOMLの指定セクションに含まれるキーを抽出
+ */
+function tomlSectionKeys(content: string, section: RegExp): string[] {
+  const keys: string[] = [];
+  let inSection = false;
+  
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line.startsWith('[')) {
+      inSection = section.test(line);
+      continue;
+    }
+    
+    const match = inSection && line.match(/^([A-Za-z0-9_\-]+)\s*=/);
+    if (match && match[1] !== 'python') {
+      keys.push(match[1].toLowerCase());
+    }
+  }
+  
+  return keys;
+}
+
+/**
+ * マニフェストファイルの内容から技術を検出
+ *
+ * READMEは依存関係を持たないため、本文中の技術名を検出する
+ */
+export function detectTechnologies(path: string, content: string): Technology[] {
+  const names = new Set<string>();
+  const name = path.split('/').pop() || '';
+  
+  if (isReadme(name)) {
+    return Array.from(
+      new Map(findTechnologiesInText(content).map(({ technology }) => [technology.name, technology])).values()
+    );
+  }
+  
+  // ファイルの存在自体がツールの利用を示すもの
+  if (/^Dockerfile/.test(name)) {
+    names.add('Docker');
+  }
+  if (path.startsWith('.github/workflows/')) {
+    names.add('GitHub Actions');
+  }
+  
+  for (const dependency of extractDependencies(path, content)) {
+    const rule = DEPENDENCY_RULES.find(({ pattern }) =>
+      typeof pattern === 'string' ? pattern === dependency : pattern.test(dependency)
+    );
+    if (rule) names.add(rule.name);
+  }
+  
+  return Array.from(names)
+    .map(technology => findTechnology(technology))
+    .filter((technology): technology is Technology => technology !== undefined);
+}
@@ -0,0 +1,166 @@
+import axios, { AxiosInstance } from 'axios';
+import { AnalysisStatus, Platform, PlatformAnalysis, PlatformService, Personality } from '../types.js';
+import { isNotFound, PlatformError } from '../errors.js';
+import { EvidenceCollector, TraitField } from '../evidence.js';
+import { addTechnology, findTechnology, TechStackScores } from '../taxonomy.js';
+import { analyzeArticleCommStyle, calculateEngagement, countTags, estimatePostFrequency } from './articles.js';
+
+/**
+ * 記事一覧で取得するページ数の上限（1ページ100件）
+ */
+const MAX_LIST_PAGES = 3;
+
+export class QiitaService implements PlatformService {
+  public readonly platform = Platform.QIITA;
+  public readonly label = 'Qiita';
+  public readonly description = 'QiitaのプロフィールURL（例: https://qiita.com/username）';
+  public readonly urlExample = 'https://qiita.com/username';
+
+  private client: AxiosInstance;
+  
+  constructor(token?: string) {
+    this.client = axios.create({
+      baseURL: 'https://qiita.com/api/v2',
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+  }
+
+  /**
+   * QiitaのプロフィールURLかどうかを検証
+   */
+  public validateUrl(url: string): boolean {
+    return /^https?:\/\/(www\.)?qiita\.com\/[^\/]+\/?$/.test(url);
+  }
+
+  /**
+   * QiitaのURLからユーザーIDを抽出
+   */
+  private extractUsername(url: string): string {
+    const match = url.match(/qiita\.com\/([^\/\?]+)/);
+    if (!match) {
+      throw new Error('Invalid Qiita URL');
+    }
+    return match[1];
+  }
+
+  /**
+   * Qiitaユーザーの情報を取得して分析
+   */
+  public async analyze(url: string, signal?: AbortSignal): Promise<PlatformAnalysis> {
+    const username = this.extractUsername(url);
+    
+    try {
+      // ユーザー情報の取得
+      const { data: user } = await this.client.get(`/users/${username}`, { signal });
+      
+      // 記事一覧の取得
+      const articles: Array<{
+        title: string;
+        url: string;
+        date?: string;
+        likes: number;
+        stocks: number;
+        tags: string[];
+      }> = [];
+      
+      for (let page = 1; page <= MAX_LIST_PAGES; page++) {
+        const { data: items } = await this.client.get(`/users/${username}/items`, {
+          params: { page, per_page: 100 },
+          signal,
+        });
+        
+        for (const item of items) {
+          articles.push({
+            title: item.title,
+            url: item.url,
+            date: item.created_at,
+            likes: item.likes_count || 0,
+            stocks: item.stocks_count || 0,
+            tags: (item.tags || []).map((tag: any) => tag.name.toLowerCase()),
+          });
+        }
+        
+        if (items.length < 100) break;
+      }
+      
+      // タグの集計
+      const tagCounts = countTags(articles);
+      const topics = Object.keys(tagCounts);
+      
+      // 技術スタックの推測
+      const techStack = this.inferTechStack(tagCounts);
+      
+      // タグごとに記事を根拠として記録
+      const techEvidence = new EvidenceCollector(Platform.QIITA);
+      const traitEvidence = new EvidenceCollector(Platform.QIITA);
+      for (const article of articles) {
+        article.tags.forEach(tag => {
+          techEvidence.add(tag, article.url, article.title, article.date);
+          const technology = findTechnology(tag);
+          if (technology) techEvidence.add(technology.name, article.url, article.title, article.date);
+        });
+      }
+      for (const topic of topics.slice(0, 10)) {
+        const article = articles.find(a => a.tags.includes(topic));
+        if (article) traitEvidence.add(TraitField.INTERESTS, article.url, `${topic}: ${article.title}`);
+      }
+      
+      // 反応数の集計
+      const totalLikes = articles.reduce((sum, a) => sum + a.likes, 0);
+      const totalStocks = articles.reduce((sum, a) => sum + a.stocks, 0);
+      
+      // 人となりの分析
+      const personality: Partial<Personality> = {
+        interests: topics.slice(0, 10),
+        activities: [
+          user.description || '',
+          `${articles.length}件の記事を公開`,
+          totalLikes > 0 ? `合計${totalLikes}件のいいね・${totalStocks}件のストックを獲得` : '',
+          user.organization ? `${user.organization}に所属` : '',
+        ].filter(Boolean),
+        communication: {
+          style: analyzeArticleCommStyle(url, articles, traitEvidence),
+          frequency: estimatePostFrequency(articles),
+          topics: topics.slice(0, 5),
+          engagement: calculateEngagement(url, articles, traitEvidence),
+        },
+        evidence: traitEvidence.toRecord(),
+      };
+
+      return {
+        platform: Platform.QIITA,
+        url,
+        techStack: {
+          topics,
+          ...techStack,
+          evidence: techEvidence.toRecord(),
+          timeline: techEvidence.toTimeline(),
+        },
+        personality,
+        rawData: { user, articles },
+      };
+    } catch (error) {
+      if (error instanceof PlatformError) throw error;
+      if (isNotFound(error)) {
+        throw new PlatformError(AnalysisStatus.NOT_FOUND, `Qiitaユーザーが見つかりません: ${username}`);
+      }
+      console.error('Qiita API error:', error);
+      throw new Error(`Qiita分析中にエラーが発生しました: ${error}`);
+    }
+  }
+
+  /**
+   * タグから技術スタックを推測
+   */
+  private inferTechStack(tagCounts: Record<string, number>): TechStackScores {
+    const scores: TechStackScores = { languages: {}, frameworks: {}, tools: {} };
+    
+    // Qiitaのタグは表記が揃っているため完全一致で分類する
+    for (const [tag, count] of Object.entries(tagCounts)) {
+      const technology = findTechnology(tag);
+      if (technology) addTechnology(scores, technology, count);
+    }
+    
+    return scores;
+  }
+}
@@ -1,8 +1,67 @@
 import axios from 'axios';
 import * as cheerio from 'cheerio';
-import { Platform, PlatformAnalysis, Personality } from '../types.js';
+import { extractText } from 'unpdf';
+import { AnalysisStatus, Platform, PlatformAnalysis, PlatformService, Personality, ProgressReporter } from '../types.js';
+import { isNotFound, PlatformError } from '../errors.js';
+import { EvidenceCollector, excerpt, TraitField } from '../evidence.js';
+import { addTechnology, findTechnologiesInText, findTopicKeywordsInText, TechStackScores } from '../taxonomy.js';
+
+/**
+ * 辿る一覧ページ数の上限
+ */
+const MAX_LIST_PAGES = 10;
+
+/**
+ * 詳細を取得するプレゼンテーション数の上限
+ */
+const MAX_TALK_DETAILS = 50;
+
+/**
+ * ダウンロードするPDFのサイズ上限（バイト）
+ */
+const MAX_PDF_BYTES = 30 * 1024 * 1024;
+
+/**
+ * テキストを抽出するPDFの数の上限（トランスクリプトがないプレゼンテーションのみ）
+ */
+const MAX_PDF_DOWNLOADS = 5;
+
+/**
+ * 分析開始から詳細の取得に使える時間（プラットフォームの制限時間より短くし、取得済みの詳細で分析する）
+ */
+const DETAIL_TIME_BUDGET_MS = 40 * 1000;
+
+/**
+ * PDFのダウンロードを始めるのに必要な残り時間
+ */
+const MIN_PDF_REMAINING_MS = 10 * 1000;
+
+/**
+ * プレゼンテーション
+ */
+interface Presentation {
+  title: string;
+  description: string;
+  url: string;
+  date: string; // 公開日（詳細ページから取得できた場合はISO 8601形式）
+  category?: string;
+  views?: number;
+  slides?: string[]; // スライドごとのテキスト（トランスクリプトまたはPDFから抽出）
+}
+
+export class SpeakerDeckService implements PlatformService {
+  public readonly platform = Platform.SPEAKERDECK;
+  public readonly label = 'SpeakerDeck';
+  public readonly description = 'SpeakerDeckのプロフィールURL（例: https://speakerdeck.com/username）';
+  public readonly urlExample = 'https://speakerdeck.com/username';
+
+  /**
+   * SpeakerDeckのプロフィールURLかどうかを検証
+   */
+  public validateUrl(url: string): boolean {
+    return /^https?:\/\/(www\.)?speakerdeck\.com\/[^\/]+\/?$/.test(url);
+  }
 
-export class SpeakerDeckService {
   /**
    * SpeakerDeckのURLからユーザー名を抽出
    */
@@ -17,47 +76,59 @@ export class SpeakerDeckService {
   /**
    * SpeakerDeckユーザーの情報を取得して分析
    */
-  public async analyze(url: string): Promise<PlatformAnalysis> {
+  public async analyze(url: string, signal?: AbortSignal, onProgress?: ProgressReporter): Promise<PlatformAnalysis> {
     const username = this.extractUsername(url);
+    const deadline = Date.now() + DETAIL_TIME_BUDGET_MS;
     
     try {
       // ユーザーページのHTMLを取得
-      const response = await axios.get(`https://speakerdeck.com/${username}`);
+      const profileUrl = `https://speakerdeck.com/${username}`;
+      const response = await axios.get(profileUrl, { signal });
       const $ = cheerio.load(response.data);
       
-      // プレゼンテーション一覧を取得
-      const presentations: Array<{
-        title: string;
-        description: string;
-        url: string;
-        date: string;
-      }> = [];
+      // 全ての一覧ページからプレゼンテーションを取得
+      const presentations = await this.fetchAllPresentations($, profileUrl, signal, onProgress);
       
-      // プレゼンテーションカードを抽出
-      $('.talk-listing .container').each((_, element) => {
-        const titleElement = $(element).find('h3.title');
-        const title = titleElement.text().trim();
-        const url = 'https://speakerdeck.com' + titleElement.find('a').attr('href');
-        const description = $(element).find('.description').text().trim();
-        const date = $(element).find('.date').text().trim();
+      // 各プレゼンテーションの詳細を取得（持ち時間を使い切ったら取得済みの分だけで分析する）
+      const detailTargets = presentations.slice(0, MAX_TALK_DETAILS);
+      let pdfDownloads = 0;
+      for (const [index, presentation] of detailTargets.entries()) {
+        signal?.throwIfAborted();
+        if (Date.now() >= deadline) {
+          onProgress?.(`制限時間のため${index}件の詳細で分析します`);
+          break;
+        }
         
-        presentations.push({
-          title,
-          description,
-          url,
-          date
-        });
-      });
+        onProgress?.(`スライドの詳細を取得中 (${index + 1}/${detailTargets.length})`);
+        const canDownloadPdf = pdfDownloads < MAX_PDF_DOWNLOADS && deadline - Date.now() >= MIN_PDF_REMAINING_MS;
+        if (await this.fetchTalkDetails(presentation, deadline, canDownloadPdf, signal)) {
+          pdfDownloads++;
+        }
+      }
       
       // プロフィール情報を取得
       const profileName = $('.profile-header h1').text().trim();
       const profileBio = $('.profile-header .bio').text().trim();
       
-      // プレゼンテーションからトピックを抽出
-      const topics = this.extractTopicsFromPresentations(presentations);
+      // プレゼンテーションからトピックを抽出（検出元のプレゼンテーションを根拠として記録）
+      const techEvidence = new EvidenceCollector(Platform.SPEAKERDECK);
+      const traitEvidence = new EvidenceCollector(Platform.SPEAKERDECK);
+      const topics = this.extractTopicsFromPresentations(presentations, techEvidence);
       
       // 技術スタックの推測
-      const techStack = this.inferTechStack(presentations, topics);
+      const techStack = this.inferTechStack(presentations, techEvidence);
+      
+      const topicEvidence = techEvidence.toRecord();
+      for (const topic of Array.from(topics).slice(0, 10)) {
+        const [first] = topicEvidence[topic] ?? [];
+        if (first) traitEvidence.add(TraitField.INTERESTS, first.url, `${topic}: ${first.snippet ?? ''}`);
+      }
+      if (profileBio) {
+        traitEvidence.add(TraitField.ACTIVITIES, url, profileBio);
+      }
+      
+      // 閲覧数の集計
+      const totalViews = presentations.reduce((sum, p) => sum + (p.views || 0), 0);
       
       // 人となりの分析
       const personality: Partial<Personality> = {
@@ -65,13 +136,15 @@ export class SpeakerDeckService {
         activities: [
           profileBio,
           `${presentations.length}件のプレゼンテーションを公開`,
+          totalViews > 0 ? `合計${totalViews}回閲覧` : '',
         ].filter(Boolean),
         communication: {
-          style: this.analyzeCommStyle(presentations),
-          frequency: presentations.length > 0 ? presentations.length / 12 : 0, // 年間平均（概算）
+          style: this.analyzeCommStyle(url, presentations, traitEvidence),
+          frequency: this.calculateTalksPerMonth(presentations),
           topics: Array.from(topics).slice(0, 5),
         },
-        workStyle: this.inferWorkStyle(presentations),
+        workStyle: this.inferWorkStyle(presentations, traitEvidence),
+        evidence: traitEvidence.toRecord(),
       };
 
       return {
@@ -80,131 +153,295 @@ export class SpeakerDeckService {
         techStack: {
           topics: Array.from(topics),
           ...techStack,
+          evidence: techEvidence.toRecord(),
+          timeline: techEvidence.toTimeline(),
         },
         personality,
-        rawData: { profile: { name: profileName, bio: profileBio }, presentations },
+        rawData: {
+          profile: { name: profileName, bio: profileBio },
+          presentations: presentations.map(({ slides, ...presentation }) => ({
+            ...presentation,
+            slideCount: slides?.length,
+          })),
+        },
       };
     } catch (error) {
+      if (error instanceof PlatformError) throw error;
+      if (isNotFound(error)) {
+        throw new PlatformError(AnalysisStatus.NOT_FOUND, `SpeakerDeckユーザーが見つかりません: ${username}`);
+      }
       console.error('SpeakerDeck scraping error:', error);
       throw new Error(`SpeakerDeck分析中にエラーが発生しました: ${error}`);
     }
   }
 
   /**
-   * プレゼンテーションからトピックを抽出
+   * 一覧ページを順に辿ってプレゼンテーションを取得
    */
-  private extractTopicsFromPresentations(presentations: Array<{ title: string; description: string }>): Set<string> {
-    const topics = new Set<string>();
-    
-    // 技術関連のキーワードリスト
-    const techKeywords = [
-      'javascript', 'typescript', 'python', 'java', 'ruby', 'go', 'rust', 'c#', 'php',
-      'react', 'vue', 'angular', 'svelte', 'node', 'deno', 'rails', 'django', 'laravel',
-      'aws', 'azure', 'gcp', 'cloud', 'docker', 'kubernetes', 'devops', 'cicd',
-      'ai', 'ml', 'machine learning', 'deep learning', 'data', 'analytics',
-      'web', 'mobile', 'frontend', 'backend', 'fullstack', 'database', 'sql', 'nosql',
-      'security', 'blockchain', 'crypto', 'iot', 'ar', 'vr',
-      'architecture', 'microservices', 'serverless', 'testing', 'agile', 'scrum',
-      'design', 'ux', 'ui', 'accessibility', 'performance', 'optimization',
-    ];
+  private async fetchAllPresentations(
+    $: cheerio.CheerioAPI,
+    profileUrl: string,
+    signal?: AbortSignal,
+    onProgress?: ProgressReporter
+  ): Promise<Presentation[]> {
+    const presentations: Presentation[] = [];
+    const seen = new Set<string>();
+    let $page = $;
     
-    for (const presentation of presentations) {
-      const text = (presentation.title + ' ' + presentation.description).toLowerCase();
+    for (let page = 1; page <= MAX_LIST_PAGES; page++) {
+      const found = this.parseListing($page);
+      const fresh = found.filter(p => !seen.has(p.url));
+      if (fresh.length === 0) break;
       
-      // 技術キーワードの検出
-      for (const keyword of techKeywords) {
-        if (text.includes(keyword)) {
-          topics.add(keyword);
-        }
+      fresh.forEach(p => seen.add(p.url));
+      presentations.push(...fresh);
+      
+      // 次のページへのリンクがなければ終了
+      if ($page('a[rel="next"], .pagination .next a').length === 0) break;
+      
+      try {
+        onProgress?.(`一覧ページを取得中 (${page + 1}ページ目)`);
+        const response = await axios.get(profileUrl, { params: { page: page + 1 }, signal });
+        $page = cheerio.load(response.data);
+      } catch (error) {
+        signal?.throwIfAborted();
+        console.error(`Failed to fetch SpeakerDeck page ${page + 1}:`, error);
+        break;
       }
     }
     
-    return topics;
+    return presentations;
   }
 
   /**
-   * 技術スタックを推測
+   * 一覧ページからプレゼンテーションカードを抽出
    */
-  private inferTechStack(
-    presentations: Array<{ title: string; description: string }>,
-    topics: Set<string>
-  ): { languages: Record<string, number>; frameworks: Record<string, number>; tools: Record<string, number> } {
-    const languages: Record<string, number> = {};
-    const frameworks: Record<string, number> = {};
-    const tools: Record<string, number> = {};
+  private parseListing($: cheerio.CheerioAPI): Presentation[] {
+    const presentations: Presentation[] = [];
     
-    // 言語のリスト
-    const languageList = [
-      'javascript', 'typescript', 'python', 'java', 'ruby', 'go', 'rust', 'c#', 'php',
-      'swift', 'kotlin', 'scala', 'haskell', 'clojure', 'elixir', 'erlang',
-      'c', 'c++', 'objective-c', 'dart', 'lua', 'perl', 'r',
-    ];
+    $('.talk-listing .container').each((_, element) => {
+      const titleElement = $(element).find('h3.title');
+      const title = titleElement.text().trim();
+      const url = 'https://speakerdeck.com' + titleElement.find('a').attr('href');
+      const description = $(element).find('.description').text().trim();
+      const date = $(element).find('.date').text().trim();
+      
+      presentations.push({
+        title,
+        description,
+        url,
+        date
+      });
+    });
     
-    // フレームワークのリスト
-    const frameworkList = [
-      'react', 'vue', 'angular', 'svelte', 'next', 'nuxt', 'gatsby',
-      'express', 'koa', 'nest', 'fastify', 'hapi',
-      'django', 'flask', 'fastapi', 'spring', 'rails', 'laravel',
-      'tensorflow', 'pytorch', 'keras',
-    ];
+    // 新しいレイアウトのカード
+    $('a.deck-preview-link').each((_, element) => {
+      const href = $(element).attr('href');
+      if (!href) return;
+      
+      presentations.push({
+        title: ($(element).attr('title') || $(element).find('.deck-title').text()).trim(),
+        description: '',
+        url: new URL(href, 'https://speakerdeck.com').toString(),
+        date: $(element).closest('.deck-preview').find('.deck-date, .date').text().trim(),
+      });
+    });
     
-    // ツールのリスト
-    const toolList = [
-      'webpack', 'babel', 'eslint', 'prettier', 'jest', 'mocha', 'cypress',
-      'docker', 'kubernetes', 'aws', 'azure', 'gcp', 'firebase',
-      'graphql', 'apollo', 'redux', 'mobx', 'zustand',
-      'git', 'github', 'gitlab', 'bitbucket',
-    ];
+    return presentations;
+  }
+
+  /**
+   * プレゼンテーションのページから説明・カテゴリー・閲覧数・公開日を取得
+   *
+   * 取得は持ち時間の期限で打ち切る。canDownloadPdfがtrueの場合に限り、トランスクリプトのないスライドのPDFをダウンロードする。
+   * PDFのダウンロードを試みた場合はtrueを返す
+   */
+  private async fetchTalkDetails(
+    presentation: Presentation,
+    deadline: number,
+    canDownloadPdf: boolean,
+    signal?: AbortSignal
+  ): Promise<boolean> {
+    const talkSignal = AbortSignal.any([
+      AbortSignal.timeout(Math.max(deadline - Date.now(), 0)),
+      ...(signal ? [signal] : []),
+    ]);
     
-    // プレゼンテーションのタイトルと説明から技術スタックを推測
-    for (const presentation of presentations) {
-      const text = (presentation.title + ' ' + presentation.description).toLowerCase();
+    try {
+      const response = await axios.get(presentation.url, { signal: talkSignal });
+      const $ = cheerio.load(response.data);
       
-      // 言語の検出
-      for (const lang of languageList) {
-        if (text.includes(lang)) {
-          languages[lang] = (languages[lang] || 0) + 1;
+      // 構造化データ（JSON-LD）があれば優先して使う
+      let structured: any = {};
+      $('script[type="application/ld+json"]').each((_, element) => {
+        try {
+          const data = JSON.parse($(element).text());
+          if (data.datePublished || data.description) {
+            structured = data;
+          }
+        } catch (error) {
+          // 解析できないJSON-LDは無視
         }
+      });
+      
+      const description = structured.description ||
+                          $('.deck-description').text().trim() ||
+                          $('meta[property="og:description"]').attr('content') || '';
+      if (description.length > presentation.description.length) {
+        presentation.description = description.trim();
       }
       
-      // フレームワークの検出
-      for (const fw of frameworkList) {
-        if (text.includes(fw)) {
-          frameworks[fw] = (frameworks[fw] || 0) + 1;
-        }
+      const category = $('a[href^="/c/"]').first().text().trim();
+      if (category) {
+        presentation.category = category;
+      }
+      
+      const views = this.parseViews(
+        structured.interactionStatistic?.userInteractionCount ??
+        $('[title$="views"], .deck-views, .views').first().text()
+      );
+      if (views !== undefined) {
+        presentation.views = views;
       }
       
-      // ツールの検出
-      for (const tool of toolList) {
-        if (text.includes(tool)) {
-          tools[tool] = (tools[tool] || 0) + 1;
+      const date = new Date(
+        structured.datePublished ||
+        $('meta[property="article:published_time"]').attr('content') ||
+        $('.deck-date, time').first().attr('datetime') ||
+        $('.deck-date').first().text().trim() ||
+        presentation.date
+      );
+      if (!isNaN(date.getTime())) {
+        presentation.date = date.toISOString();
+      }
+      
+      // スライドのテキスト（トランスクリプトがなければPDFから抽出）
+      const transcript = $('.deck-transcript li, #transcript li, .transcript li')
+        .map((_, element) => $(element).text().replace(/\s+/g, ' ').trim())
+        .get()
+        .filter(Boolean);
+      
+      if (transcript.length > 0) {
+        presentation.slides = transcript;
+      } else if (canDownloadPdf) {
+        const pdfUrl = $('a[href$=".pdf"]').first().attr('href');
+        if (pdfUrl) {
+          presentation.slides = await this.extractPdfText(new URL(pdfUrl, presentation.url).toString(), talkSignal);
+          return true;
         }
       }
+    } catch (error) {
+      console.error(`Failed to fetch SpeakerDeck talk ${presentation.url}:`, error);
     }
     
-    // トピックからも技術スタックを補完
-    for (const topic of topics) {
-      const topicLower = topic.toLowerCase();
+    return false;
+  }
+
+  /**
+   * PDFをダウンロードしてページごとのテキストを抽出
+   */
+  private async extractPdfText(pdfUrl: string, signal?: AbortSignal): Promise<string[] | undefined> {
+    try {
+      const response = await axios.get<ArrayBuffer>(pdfUrl, {
+        responseType: 'arraybuffer',
+        maxContentLength: MAX_PDF_BYTES,
+        signal,
+      });
+      const { text } = await extractText(new Uint8Array(response.data), { mergePages: false });
+      return text.map(page => page.replace(/\s+/g, ' ').trim());
+    } catch (error) {
+      console.error(`Failed to extract text from ${pdfUrl}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * タイトル・説明・スライドのテキストを結合
+   */
+  private presentationText(presentation: Presentation): string {
+    return [presentation.title, presentation.description, ...(presentation.slides || [])].join(' ');
+  }
+
+  /**
+   * 「1.2k views」のような表記を数値に変換
+   */
+  private parseViews(value: unknown): number | undefined {
+    if (typeof value === 'number') return value;
+    
+    const match = String(value ?? '').replace(/,/g, '').match(/([\d.]+)\s*([km])?/i);
+    if (!match) return undefined;
+    
+    const multiplier = { k: 1000, m: 1000000 }[match[2]?.toLowerCase() as 'k' | 'm'] || 1;
+    return Math.round(parseFloat(match[1]) * multiplier);
+  }
+
+  /**
+   * 1か月あたりの発表数を計算
+   *
+   * 最初の発表から現在までの期間で割るため、最近発表していない人は低く評価される
+   */
+  private calculateTalksPerMonth(presentations: Presentation[]): number {
+    const dates = presentations
+      .map(p => new Date(p.date))
+      .filter(date => !isNaN(date.getTime()))
+      .sort((a, b) => a.getTime() - b.getTime());
+    
+    if (dates.length === 0) return presentations.length > 0 ? presentations.length / 12 : 0; // 日付情報がない場合は概算
+    
+    const years = (Date.now() - dates[0].getTime()) / (1000 * 60 * 60 * 24 * 365);
+    return dates.length / Math.max(years, 1) / 12;
+  }
+
+  /**
+   * プレゼンテーションからトピックを抽出
+   */
+  private extractTopicsFromPresentations(presentations: Presentation[], evidence: EvidenceCollector): Set<string> {
+    const topics = new Set<string>();
+    
+    for (const presentation of presentations) {
+      const text = this.presentationText(presentation);
       
-      if (languageList.some(lang => topicLower.includes(lang))) {
-        const lang = languageList.find(l => topicLower.includes(l));
-        if (lang) languages[lang] = (languages[lang] || 0) + 1;
-      } else if (frameworkList.some(fw => topicLower.includes(fw))) {
-        const fw = frameworkList.find(f => topicLower.includes(f));
-        if (fw) frameworks[fw] = (frameworks[fw] || 0) + 1;
-      } else if (toolList.some(tool => topicLower.includes(tool))) {
-        const tool = toolList.find(t => topicLower.includes(t));
-        if (tool) tools[tool] = (tools[tool] || 0) + 1;
+      // 技術の検出
+      for (const { technology, match } of findTechnologiesInText(text)) {
+        topics.add(technology.name);
+        evidence.add(technology.name, presentation.url, excerpt(text, match), presentation.date);
+      }
+      
+      // 分野のキーワードの検出
+      for (const keyword of findTopicKeywordsInText(text)) {
+        topics.add(keyword);
+        evidence.add(keyword, presentation.url, excerpt(text, keyword), presentation.date);
       }
     }
     
-    return { languages, frameworks, tools };
+    return topics;
+  }
+
+  /**
+   * 技術スタックを推測
+   *
+   * 技術を扱ったプレゼンテーションの数をスコアとする
+   */
+  private inferTechStack(presentations: Presentation[], evidence: EvidenceCollector): TechStackScores {
+    const scores: TechStackScores = { languages: {}, frameworks: {}, tools: {} };
+    
+    // プレゼンテーションのタイトル・説明・スライドから技術スタックを推測
+    for (const presentation of presentations) {
+      const text = this.presentationText(presentation);
+      
+      for (const { technology, match } of findTechnologiesInText(text)) {
+        addTechnology(scores, technology);
+        evidence.add(technology.name, presentation.url, excerpt(text, match), presentation.date);
+      }
+    }
+    
+    return scores;
   }
 
   /**
    * コミュニケーションスタイルの分析
    */
-  private analyzeCommStyle(presentations: Array<{ title: string; description: string }>): string {
+  private analyzeCommStyle(profileUrl: string, presentations: Presentation[], evidence: EvidenceCollector): string {
     if (presentations.length === 0) {
       return '情報不足のため分析できません';
     }
@@ -225,6 +462,13 @@ export class SpeakerDeckService {
     );
     const techRatio = techPresentations.length / count;
     
+    evidence.add(
+      TraitField.STYLE,
+      profileUrl,
+      `${count}件のプレゼンテーション（タイトル平均${Math.round(avgTitleLength)}文字、説明平均${Math.round(avgDescLength)}文字、` +
+      `技術的な内容${Math.round(techRatio * 100)}%）`
+    );
+    
     // スタイル分析
     if (count > 20) {
       return '積極的に知識を共有するスタイル';
@@ -242,39 +486,53 @@ export class SpeakerDeckService {
   /**
    * 仕事のスタイルを推測
    */
-  private inferWorkStyle(presentations: Array<{ title: string; description: string }>): string {
+  private inferWorkStyle(presentations: Presentation[], evidence: EvidenceCollector): string {
     if (presentations.length === 0) {
       return '情報不足のため分析できません';
     }
     
-    const text = presentations.map(p => p.title + ' ' + p.description).join(' ').toLowerCase();
+    // キーワードを含む最初のプレゼンテーションと、一致した箇所を探す
+    const findFocus = (keywords: string[]) => {
+      for (const presentation of presentations) {
+        const text = (presentation.title + ' ' + presentation.description).toLowerCase();
+        const keyword = keywords.find(kw => text.includes(kw));
+        if (keyword) return { url: presentation.url, snippet: excerpt(text, keyword) };
+      }
+      return undefined;
+    };
+    
+    // 判定の決め手になったプレゼンテーションを根拠として記録
+    const record = (...focuses: Array<{ url: string; snippet: string } | undefined>) => {
+      focuses.forEach(focus => focus && evidence.add(TraitField.WORK_STYLE, focus.url, focus.snippet));
+    };
     
     // チーム関連のキーワード
-    const teamKeywords = ['team', 'collaboration', 'agile', 'scrum', 'kanban', 'together'];
-    const hasTeamFocus = teamKeywords.some(kw => text.includes(kw));
+    const teamFocus = findFocus(['team', 'collaboration', 'agile', 'scrum', 'kanban', 'together']);
     
     // 個人関連のキーワード
-    const individualKeywords = ['personal', 'individual', 'solo', 'self'];
-    const hasIndividualFocus = individualKeywords.some(kw => text.includes(kw));
+    const individualFocus = findFocus(['personal', 'individual', 'solo', 'self']);
     
     // リーダーシップ関連のキーワード
-    const leadershipKeywords = ['lead', 'leadership', 'manage', 'management', 'strategy', 'vision'];
-    const hasLeadershipFocus = leadershipKeywords.some(kw => text.includes(kw));
+    const leadershipFocus = findFocus(['lead', 'leadership', 'manage', 'management', 'strategy', 'vision']);
     
     // 技術的詳細関連のキーワード
-    const technicalKeywords = ['detail', 'implementation', 'code', 'architecture', 'design', 'pattern'];
-    const hasTechnicalFocus = technicalKeywords.some(kw => text.includes(kw));
+    const technicalFocus = findFocus(['detail', 'implementation', 'code', 'architecture', 'design', 'pattern']);
     
     // スタイル分析
-    if (hasLeadershipFocus && hasTeamFocus) {
+    if (leadershipFocus && teamFocus) {
+      record(leadershipFocus, teamFocus);
       return 'チームリーダーシップを重視するスタイル';
-    } else if (hasTeamFocus) {
+    } else if (teamFocus) {
+      record(teamFocus);
       return '協調性を重視するスタイル';
-    } else if (hasIndividualFocus && hasTechnicalFocus) {
+    } else if (individualFocus && technicalFocus) {
+      record(individualFocus, technicalFocus);
       return '技術的な深掘りを好む個人作業スタイル';
-    } else if (hasTechnicalFocus) {
+    } else if (technicalFocus) {
+      record(technicalFocus);
       return '技術的な詳細にこだわるスタイル';
-    } else if (hasLeadershipFocus) {
+    } else if (leadershipFocus) {
+      record(leadershipFocus);
       return 'ビジョンや戦略を重視するスタイル';
     }
     
@@ -1,13 +1,45 @@
-import { TwitterApi } from 'twitter-api-v2';
-import { Platform, PlatformAnalysis, Personality } from '../types.js';
+import { ApiResponseError, TwitterApi } from 'twitter-api-v2';
+import { AnalysisStatus, Platform, PlatformAnalysis, PlatformService, Personality } from '../types.js';
+import { isNotFound, PlatformError } from '../errors.js';
+import { EvidenceCollector, excerpt, TraitField } from '../evidence.js';
+import { RateLimiter, RateLimiterOptions, RateLimitInfo } from '../ratelimit.js';
+import { addTechnology, classifyTerm, findTechnologiesInText, findTopicKeywordsInText, TechStackScores } from '../taxonomy.js';
+
+export class TwitterService implements PlatformService {
+  public readonly platform = Platform.TWITTER;
+  public readonly label = 'Twitter/X';
+  public readonly description = 'X（Twitter）のプロフィールURL（例: https://twitter.com/username または https://x.com/username）';
+  public readonly urlExample = 'https://twitter.com/username または https://x.com/username';
 
-export class TwitterService {
   private client: TwitterApi | null = null;
+  private rateLimiter: RateLimiter;
   
-  constructor(token?: string) {
+  constructor(token?: string, rateLimit?: Partial<RateLimiterOptions>) {
     if (token) {
       this.client = new TwitterApi(token);
     }
+    this.rateLimiter = new RateLimiter(this.label, error => this.inspectRateLimitError(error), rateLimit);
+  }
+
+  /**
+   * エラーがレート制限によるものか判定
+   */
+  private inspectRateLimitError(error: unknown): RateLimitInfo | undefined {
+    if (!(error instanceof ApiResponseError) || (!error.rateLimitError && error.code !== 429)) {
+      return undefined;
+    }
+    
+    return {
+      remaining: error.rateLimit?.remaining,
+      resetAt: error.rateLimit ? new Date(error.rateLimit.reset * 1000) : undefined,
+    };
+  }
+
+  /**
+   * TwitterのプロフィールURLかどうかを検証
+   */
+  public validateUrl(url: string): boolean {
+    return /^https?:\/\/(www\.)?(twitter|x)\.com\/[^\/]+\/?$/.test(url);
   }
 
   /**
@@ -25,7 +57,7 @@ export class TwitterService {
   /**
    * Twitterユーザーの情報を取得して分析
    */
-  public async analyze(url: string): Promise<PlatformAnalysis> {
+  public async analyze(url: string, signal?: AbortSignal): Promise<PlatformAnalysis> {
     const username = this.extractUsername(url);
     
     try {
@@ -35,38 +67,55 @@ export class TwitterService {
       // APIクライアントが利用可能な場合はAPIを使用
       if (this.client) {
         // ユーザー情報の取得
-        userData = await this.client.v2.userByUsername(username, {
+        const client = this.client;
+        userData = await this.rateLimiter.run(() => client.v2.userByUsername(username, {
           'user.fields': ['description', 'public_metrics', 'created_at', 'location', 'url'],
-        });
+        }), 'users', signal);
+        
+        if (!userData.data) {
+          throw new PlatformError(AnalysisStatus.NOT_FOUND, `Twitterユーザーが見つかりません: ${username}`);
+        }
         
         // 最新のツイートを取得
-        const userTweets = await this.client.v2.userTimeline(userData.data.id, {
+        signal?.throwIfAborted();
+        const userTweets = await this.rateLimiter.run(() => client.v2.userTimeline(userData.data.id, {
           max_results: 100,
           'tweet.fields': ['created_at', 'public_metrics', 'entities'],
-        });
+        }), 'timeline', signal);
         
         tweets = userTweets.data.data || [];
       } else {
-        // APIが利用できない場合はスクレイピングを検討
+        // APIが利用できない場合はスキップ
         // 注意: Twitterのスクレイピングは利用規約に違反する可能性があります
-        console.warn('Twitter API token not provided. Skipping detailed analysis.');
+        throw new PlatformError(
+          AnalysisStatus.SKIPPED_NO_TOKEN,
+          'TWITTER_TOKENが設定されていないため分析をスキップしました'
+        );
       }
       
-      // ツイートからトピックを抽出
-      const topics = this.extractTopicsFromTweets(tweets);
+      // ツイートからトピックを抽出（根拠としてツイートを記録）
+      const scores: TechStackScores = { languages: {}, frameworks: {}, tools: {} };
+      const techEvidence = new EvidenceCollector(Platform.TWITTER);
+      const traitEvidence = new EvidenceCollector(Platform.TWITTER);
+      const topics = this.extractTopicsFromTweets(tweets, username, scores, techEvidence);
       
       // ハッシュタグの分析
-      const hashtags = this.extractHashtags(tweets);
+      const hashtags = this.extractHashtags(tweets, username, traitEvidence);
+      
+      if (userData?.data?.description) {
+        traitEvidence.add(TraitField.ACTIVITIES, url, userData.data.description);
+      }
       
       // 人となりの分析
       const personality: Partial<Personality> = {
         interests: Array.from(hashtags).slice(0, 10),
         activities: userData?.data?.description ? [userData.data.description] : [],
         communication: {
-          style: this.analyzeCommStyle(userData, tweets),
+          style: this.analyzeCommStyle(url, userData, tweets, traitEvidence),
           frequency: this.calculateTweetFrequency(tweets),
           topics: Array.from(topics).slice(0, 5),
         },
+        evidence: traitEvidence.toRecord(),
       };
 
       return {
@@ -75,12 +124,19 @@ export class TwitterService {
         techStack: {
           // Twitterからは技術スタックの詳細情報は取得しにくいため、
           // 主にハッシュタグやツイート内容から推測する
+          ...scores,
           topics: Array.from(topics),
+          evidence: techEvidence.toRecord(),
+          timeline: techEvidence.toTimeline(),
         },
         personality,
         rawData: { user: userData?.data, tweets },
       };
     } catch (error) {
+      if (error instanceof PlatformError) throw error;
+      if (isNotFound(error)) {
+        throw new PlatformError(AnalysisStatus.NOT_FOUND, `Twitterユーザーが見つかりません: ${username}`);
+      }
       console.error('Twitter API error:', error);
       throw new Error(`Twitter分析中にエラーが発生しました: ${error}`);
     }
@@ -88,40 +144,48 @@ export class TwitterService {
 
   /**
    * ツイートからトピックを抽出
+   *
+   * 技術の辞書に一致したものは言及したツイートの数を技術スタックのスコアとして数える
    */
-  private extractTopicsFromTweets(tweets: any[]): Set<string> {
+  private extractTopicsFromTweets(
+    tweets: any[],
+    username: string,
+    scores: TechStackScores,
+    evidence: EvidenceCollector
+  ): Set<string> {
     const topics = new Set<string>();
     
-    // 技術関連のキーワードリスト
-    const techKeywords = [
-      'javascript', 'typescript', 'python', 'java', 'ruby', 'go', 'rust', 'c#', 'php',
-      'react', 'vue', 'angular', 'svelte', 'node', 'deno', 'rails', 'django', 'laravel',
-      'aws', 'azure', 'gcp', 'cloud', 'docker', 'kubernetes', 'devops', 'cicd',
-      'ai', 'ml', 'machinelearning', 'deeplearning', 'data', 'analytics',
-      'web', 'mobile', 'frontend', 'backend', 'fullstack', 'database', 'sql', 'nosql',
-      'security', 'blockchain', 'crypto', 'iot', 'ar', 'vr',
-    ];
-    
     for (const tweet of tweets) {
       if (!tweet.text) continue;
       
-      const text = tweet.text.toLowerCase();
+      const tweetUrl = this.tweetUrl(username, tweet);
       
-      // 技術キーワードの検出
-      for (const keyword of techKeywords) {
-        if (text.includes(keyword)) {
-          topics.add(keyword);
-        }
+      // 技術の検出
+      for (const { technology, match } of findTechnologiesInText(tweet.text)) {
+        topics.add(technology.name);
+        addTechnology(scores, technology);
+        evidence.add(technology.name, tweetUrl, excerpt(tweet.text, match), tweet.created_at);
+      }
+      
+      // 分野のキーワードの検出
+      for (const keyword of findTopicKeywordsInText(tweet.text)) {
+        topics.add(keyword);
+        evidence.add(keyword, tweetUrl, excerpt(tweet.text, keyword), tweet.created_at);
       }
       
       // エンティティからトピックを抽出
       if (tweet.entities) {
-        // ハッシュタグ
+        // ハッシュタグ（本文で検出した技術は数えず、「#reactjs」のような表記ゆれをトピックにそろえる）
         if (tweet.entities.hashtags) {
           for (const tag of tweet.entities.hashtags) {
             const hashtag = tag.tag.toLowerCase();
-            if (techKeywords.some(kw => hashtag.includes(kw))) {
+            const technology = classifyTerm(hashtag);
+            if (technology) {
+              topics.add(technology.name);
+              evidence.add(technology.name, tweetUrl, excerpt(tweet.text, hashtag), tweet.created_at);
+            } else if (findTopicKeywordsInText(hashtag.replace(/_/g, ' ')).length > 0) {
               topics.add(hashtag);
+              evidence.add(hashtag, tweetUrl, excerpt(tweet.text, hashtag), tweet.created_at);
             }
           }
         }
@@ -133,6 +197,7 @@ export class TwitterService {
             const techAccounts = ['github', 'stackoverflow', 'nodejs', 'reactjs'];
             if (techAccounts.some(acc => mention.username.toLowerCase().includes(acc))) {
               topics.add(mention.username.toLowerCase());
+              evidence.add(mention.username.toLowerCase(), tweetUrl, excerpt(tweet.text, mention.username));
             }
           }
         }
@@ -145,13 +210,14 @@ export class TwitterService {
   /**
    * ツイートからハッシュタグを抽出
    */
-  private extractHashtags(tweets: any[]): Set<string> {
+  private extractHashtags(tweets: any[], username: string, evidence: EvidenceCollector): Set<string> {
     const hashtags = new Set<string>();
     
     for (const tweet of tweets) {
       if (tweet.entities && tweet.entities.hashtags) {
         for (const tag of tweet.entities.hashtags) {
           hashtags.add(tag.tag.toLowerCase());
+          evidence.add(TraitField.INTERESTS, this.tweetUrl(username, tweet), `#${tag.tag}`);
         }
       }
     }
@@ -159,10 +225,19 @@ export class TwitterService {
     return hashtags;
   }
 
+  /**
+   * ツイートのURL
+   */
+  private tweetUrl(username: string, tweet: any): string {
+    return `https://x.com/${username}/status/${tweet.id}`;
+  }
+
   /**
    * コミュニケーションスタイルの分析
+   *
+   * 判定の決め手になった数値を根拠として記録する
    */
-  private analyzeCommStyle(userData: any, tweets: any[]): string {
+  private analyzeCommStyle(profileUrl: string, userData: any, tweets: any[], evidence: EvidenceCollector): string {
     if (!userData || !tweets.length) {
       return '情報不足のため分析できません';
     }
@@ -182,6 +257,10 @@ export class TwitterService {
     const avgLength = tweets.reduce((sum, t) => sum + (t.text?.length || 0), 0) / (tweets.length || 1);
     
     // スタイル分析
+    const basis = `直近${tweets.length}件のツイート（フォロワー${followers}人、` +
+      `リツイート${Math.round(retweetRatio * 100)}%、リプライ${Math.round(replyRatio * 100)}%、平均${Math.round(avgLength)}文字）`;
+    evidence.add(TraitField.STYLE, profileUrl, basis);
+    
     if (followers > 5000) {
       return '影響力のある発信者';
     } else if (retweetRatio > 0.7) {
@@ -198,7 +277,7 @@ export class TwitterService {
   }
 
   /**
-   * ツイート頻度の計算（1日あたりの平均ツイート数）
+   * ツイート頻度の計算（1か月あたりの平均ツイート数）
    */
   private calculateTweetFrequency(tweets: any[]): number {
     if (!tweets.length) return 0;
@@ -215,6 +294,6 @@ export class TwitterService {
     const newestDate = dates[dates.length - 1];
     const daysDiff = (newestDate.getTime() - oldestDate.getTime()) / (1000 * 60 * 60 * 24);
     
-    return daysDiff > 0 ? tweets.length / daysDiff : tweets.length;
+    return daysDiff > 0 ? (tweets.length / daysDiff) * 30 : tweets.length;
   }
 }
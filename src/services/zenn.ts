@@ -0,0 +1,173 @@
+import axios from 'axios';
+import { AnalysisStatus, Platform, PlatformAnalysis, PlatformService, Personality } from '../types.js';
+import { isNotFound, PlatformError } from '../errors.js';
+import { EvidenceCollector, TraitField } from '../evidence.js';
+import { addTechnology, findTechnology, TechStackScores } from '../taxonomy.js';
+import { analyzeArticleCommStyle, calculateEngagement, countTags, estimatePostFrequency } from './articles.js';
+
+/**
+ * 一覧APIで取得するページ数の上限（1ページ48件）
+ */
+const MAX_LIST_PAGES = 5;
+
+/**
+ * トピック取得のために詳細を取得する記事数の上限
+ */
+const MAX_DETAIL_ARTICLES = 30;
+
+export class ZennService implements PlatformService {
+  public readonly platform = Platform.ZENN;
+  public readonly label = 'Zenn';
+  public readonly description = 'ZennのプロフィールURL（例: https://zenn.dev/username）';
+  public readonly urlExample = 'https://zenn.dev/username';
+
+  /**
+   * ZennのプロフィールURLかどうかを検証
+   */
+  public validateUrl(url: string): boolean {
+    return /^https?:\/\/(www\.)?zenn\.dev\/[^\/]+\/?$/.test(url);
+  }
+
+  /**
+   * ZennのURLからユーザー名を抽出
+   */
+  private extractUsername(url: string): string {
+    const match = url.match(/zenn\.dev\/([^\/\?]+)/);
+    if (!match) {
+      throw new Error('Invalid Zenn URL');
+    }
+    return match[1];
+  }
+
+  /**
+   * Zennユーザーの情報を取得して分析
+   */
+  public async analyze(url: string, signal?: AbortSignal): Promise<PlatformAnalysis> {
+    const username = this.extractUsername(url);
+    
+    try {
+      // ユーザー情報の取得
+      const { data: userData } = await axios.get(`https://zenn.dev/api/users/${username}`, { signal });
+      const user = userData.user;
+      
+      // 記事一覧の取得
+      const articles: Array<{
+        title: string;
+        url: string;
+        date?: string;
+        likes: number;
+        tags: string[];
+      }> = [];
+      
+      let page: number | null = 1;
+      while (page && page <= MAX_LIST_PAGES) {
+        const { data }: { data: any } = await axios.get('https://zenn.dev/api/articles', {
+          params: { username, order: 'latest', page },
+          signal,
+        });
+        
+        for (const article of data.articles || []) {
+          articles.push({
+            title: article.title,
+            url: `https://zenn.dev${article.path}`,
+            date: article.published_at,
+            likes: article.liked_count || 0,
+            tags: [],
+          });
+        }
+        
+        page = data.next_page;
+      }
+      
+      // 一覧APIにはトピックが含まれないため、最新の記事から詳細を取得
+      for (const article of articles.slice(0, MAX_DETAIL_ARTICLES)) {
+        signal?.throwIfAborted();
+        
+        try {
+          const slug = article.url.split('/').pop();
+          const { data } = await axios.get(`https://zenn.dev/api/articles/${slug}`, { signal });
+          article.tags = (data.article?.topics || []).map((topic: any) => topic.name.toLowerCase());
+        } catch (error) {
+          console.error(`Failed to fetch topics for ${article.url}:`, error);
+        }
+      }
+      
+      // トピックの集計
+      const tagCounts = countTags(articles);
+      const topics = Object.keys(tagCounts);
+      
+      // 技術スタックの推測
+      const techStack = this.inferTechStack(tagCounts);
+      
+      // タグごとに記事を根拠として記録
+      const techEvidence = new EvidenceCollector(Platform.ZENN);
+      const traitEvidence = new EvidenceCollector(Platform.ZENN);
+      for (const article of articles) {
+        article.tags.forEach(tag => {
+          techEvidence.add(tag, article.url, article.title, article.date);
+          const technology = findTechnology(tag);
+          if (technology) techEvidence.add(technology.name, article.url, article.title, article.date);
+        });
+      }
+      for (const topic of topics.slice(0, 10)) {
+        const article = articles.find(a => a.tags.includes(topic));
+        if (article) traitEvidence.add(TraitField.INTERESTS, article.url, `${topic}: ${article.title}`);
+      }
+      
+      // 反応数の集計
+      const totalLikes = articles.reduce((sum, a) => sum + a.likes, 0);
+      
+      // 人となりの分析
+      const personality: Partial<Personality> = {
+        interests: topics.slice(0, 10),
+        activities: [
+          user?.bio || '',
+          `${articles.length}件の記事を公開`,
+          totalLikes > 0 ? `合計${totalLikes}件のいいねを獲得` : '',
+        ].filter(Boolean),
+        communication: {
+          style: analyzeArticleCommStyle(url, articles, traitEvidence),
+          frequency: estimatePostFrequency(articles),
+          topics: topics.slice(0, 5),
+          engagement: calculateEngagement(url, articles, traitEvidence),
+        },
+        evidence: traitEvidence.toRecord(),
+      };
+
+      return {
+        platform: Platform.ZENN,
+        url,
+        techStack: {
+          topics,
+          ...techStack,
+          evidence: techEvidence.toRecord(),
+          timeline: techEvidence.toTimeline(),
+        },
+        personality,
+        rawData: { user, articles },
+      };
+    } catch (error) {
+      if (error instanceof PlatformError) throw error;
+      if (isNotFound(error)) {
+        throw new PlatformError(AnalysisStatus.NOT_FOUND, `Zennユーザーが見つかりません: ${username}`);
+      }
+      console.error('Zenn API error:', error);
+      throw new Error(`Zenn分析中にエラーが発生しました: ${error}`);
+    }
+  }
+
+  /**
+   * タグから技術スタックを推測
+   */
+  private inferTechStack(tagCounts: Record<string, number>): TechStackScores {
+    const scores: TechStackScores = { languages: {}, frameworks: {}, tools: {} };
+    
+    // Zennのトピック名は正規化済みのため完全一致で分類する
+    for (const [tag, count] of Object.entries(tagCounts)) {
+      const technology = findTechnology(tag);
+      if (technology) addTechnology(scores, technology, count);
+    }
+    
+    return scores;
+  }
+}
@@ -0,0 +1,288 @@
+import { TechStack } from './types.js';
+
+/**
+ * 技術の分類
+ */
+export type TechnologyCategory = 'language' | 'framework' | 'tool' | 'cloud' | 'database';
+
+/**
+ * 技術の定義
+ */
+export interface Technology {
+  name: string; // 正規の表記（技術スタックのキーとして使う）
+  category: TechnologyCategory;
+  aliases?: string[]; // 表記ゆれ（タグや依存関係の名前と大文字小文字を区別せずに完全一致で照合）
+  keywords?: string[]; // 文章から検出するときの表記（省略時は正規の表記と表記ゆれ）
+  ambiguousKeywords?: string[]; // 一般的な単語と紛らわしい表記（文章からは直後に「言語」「framework」などが続く場合だけ検出）
+}
+
+/**
+ * 技術スタックのうちスコアを持つ項目
+ */
+export type TechStackScores = Pick<TechStack, 'languages' | 'frameworks' | 'tools'>;
+
+/**
+ * 技術の辞書
+ *
+ * 「go」「r」「c」のように短く曖昧な表記は、タグとの完全一致でのみ照合し、文章からは検出しない。
+ * 「Spring」「Express」のように一般的な単語でもある表記は、文章からは技術の文脈がある場合だけ検出する
+ */
+export const TECHNOLOGIES: Technology[] = [
+  // 言語
+  { name: 'JavaScript', category: 'language', aliases: ['js', 'ecmascript'], keywords: ['javascript', 'ecmascript'] },
+  { name: 'TypeScript', category: 'language', aliases: ['ts'], keywords: ['typescript'] },
+  { name: 'Python', category: 'language', aliases: ['python3', 'python2', 'py'], keywords: ['python'] },
+  { name: 'Java', category: 'language' },
+  { name: 'Ruby', category: 'language' },
+  { name: 'Go', category: 'language', aliases: ['golang', 'go言語'], keywords: ['golang', 'go言語'], ambiguousKeywords: ['go'] },
+  { name: 'Rust', category: 'language', aliases: ['rustlang'], keywords: ['rustlang'], ambiguousKeywords: ['rust'] },
+  { name: 'C#', category: 'language', aliases: ['csharp', 'c-sharp'] },
+  { name: 'PHP', category: 'language' },
+  { name: 'Swift', category: 'language', keywords: [], ambiguousKeywords: ['swift'] },
+  { name: 'Kotlin', category: 'language' },
+  { name: 'Scala', category: 'language' },
+  { name: 'Haskell', category: 'language' },
+  { name: 'Clojure', category: 'language' },
+  { name: 'Elixir', category: 'language' },
+  { name: 'Erlang', category: 'language' },
+  { name: 'C', category: 'language', aliases: ['c言語'], keywords: ['c言語'] },
+  { name: 'C++', category: 'language', aliases: ['cpp', 'cplusplus'] },
+  { name: 'Objective-C', category: 'language', aliases: ['objectivec', 'objective c', 'objc'] },
+  { name: 'Dart', category: 'language', aliases: ['dartlang'], keywords: ['dartlang'], ambiguousKeywords: ['dart'] },
+  { name: 'Lua', category: 'language' },
+  { name: 'Perl', category: 'language' },
+  { name: 'R', category: 'language', aliases: ['r言語'], keywords: ['r言語'] },
+  { name: 'Shell', category: 'language', aliases: ['shellscript', 'bash', 'sh', 'zsh'], keywords: ['shellscript', 'シェルスクリプト', 'bash'] },
+  { name: 'HTML', category: 'language', aliases: ['html5'] },
+  { name: 'CSS', category: 'language', aliases: ['css3'] },
+
+  // フレームワーク
+  { name: 'React', category: 'framework', aliases: ['reactjs', 'react.js'], keywords: ['reactjs', 'react.js'], ambiguousKeywords: ['react'] },
+  { name: 'Vue.js', category: 'framework', aliases: ['vue', 'vuejs'] },
+  { name: 'Angular', category: 'framework', aliases: ['angularjs'], keywords: ['angularjs'], ambiguousKeywords: ['angular'] },
+  { name: 'Svelte', category: 'framework', aliases: ['sveltekit'] },
+  { name: 'Next.js', category: 'framework', aliases: ['next', 'nextjs'], keywords: ['next.js', 'nextjs'] },
+  { name: 'Nuxt', category: 'framework', aliases: ['nuxtjs', 'nuxt.js'] },
+  { name: 'Gatsby', category: 'framework', aliases: ['gatsbyjs'], keywords: ['gatsbyjs'], ambiguousKeywords: ['gatsby'] },
+  { name: 'Express', category: 'framework', aliases: ['expressjs', 'express.js'], keywords: ['expressjs', 'express.js'], ambiguousKeywords: ['express'] },
+  { name: 'Koa', category: 'framework', aliases: ['koajs'] },
+  { name: 'NestJS', category: 'framework', aliases: ['nest', 'nest.js'], keywords: ['nestjs', 'nest.js'] },
+  { name: 'Fastify', category: 'framework' },
+  { name: 'hapi', category: 'framework', aliases: ['hapijs'], keywords: ['hapijs'] },
+  { name: 'Django', category: 'framework' },
+  { name: 'Flask', category: 'framework', keywords: [], ambiguousKeywords: ['flask'] },
+  { name: 'FastAPI', category: 'framework' },
+  { name: 'Spring', category: 'framework', aliases: ['spring boot', 'springboot', 'spring-boot', 'spring framework'], keywords: ['spring boot', 'springboot', 'spring framework'], ambiguousKeywords: ['spring'] },
+  { name: 'Ruby on Rails', category: 'framework', aliases: ['rails', 'rubyonrails', 'ruby-on-rails'] },
+  { name: 'Sinatra', category: 'framework', keywords: [], ambiguousKeywords: ['sinatra'] },
+  { name: 'Laravel', category: 'framework' },
+  { name: 'TensorFlow', category: 'framework' },
+  { name: 'PyTorch', category: 'framework', aliases: ['torch'], keywords: ['pytorch'] },
+  { name: 'Keras', category: 'framework' },
+  { name: 'Flutter', category: 'framework', keywords: [], ambiguousKeywords: ['flutter'] },
+  { name: 'Gin', category: 'framework', keywords: [] },
+  { name: 'Echo', category: 'framework', keywords: [] },
+  { name: 'Fiber', category: 'framework', keywords: [] },
+  { name: 'actix-web', category: 'framework', aliases: ['actix'] },
+  { name: 'Axum', category: 'framework' },
+  { name: 'Rocket', category: 'framework', keywords: [] },
+
+  // ツール
+  { name: 'Node.js', category: 'tool', aliases: ['node', 'nodejs'], keywords: ['node.js', 'nodejs'] },
+  { name: 'Deno', category: 'tool' },
+  { name: 'webpack', category: 'tool' },
+  { name: 'Vite', category: 'tool', aliases: ['vitejs'] },
+  { name: 'Babel', category: 'tool' },
+  { name: 'ESLint', category: 'tool' },
+  { name: 'Prettier', category: 'tool', keywords: [], ambiguousKeywords: ['prettier'] },
+  { name: 'Jest', category: 'tool', keywords: [], ambiguousKeywords: ['jest'] },
+  { name: 'Vitest', category: 'tool' },
+  { name: 'Mocha', category: 'tool', keywords: [], ambiguousKeywords: ['mocha'] },
+  { name: 'Cypress', category: 'tool' },
+  { name: 'Playwright', category: 'tool' },
+  { name: 'pytest', category: 'tool' },
+  { name: 'RSpec', category: 'tool' },
+  { name: 'JUnit', category: 'tool' },
+  { name: 'GraphQL', category: 'tool' },
+  { name: 'Apollo', category: 'tool', aliases: ['apollo-client', 'apollo-server'], keywords: ['apollo-client', 'apollo-server'], ambiguousKeywords: ['apollo'] },
+  { name: 'Redux', category: 'tool', aliases: ['redux-toolkit'] },
+  { name: 'MobX', category: 'tool' },
+  { name: 'Zustand', category: 'tool' },
+  { name: 'Prisma', category: 'tool' },
+  { name: 'SQLAlchemy', category: 'tool' },
+  { name: 'Tokio', category: 'tool' },
+  { name: 'Docker', category: 'tool', aliases: ['dockerfile', 'docker-compose'] },
+  { name: 'Kubernetes', category: 'tool', aliases: ['k8s'] },
+  { name: 'Terraform', category: 'tool' },
+  { name: 'Git', category: 'tool' },
+  { name: 'GitHub', category: 'tool' },
+  { name: 'GitLab', category: 'tool' },
+  { name: 'Bitbucket', category: 'tool' },
+  { name: 'GitHub Actions', category: 'tool', aliases: ['github-actions'] },
+
+  // クラウド
+  { name: 'AWS', category: 'cloud', aliases: ['amazon web services'] },
+  { name: 'Google Cloud', category: 'cloud', aliases: ['gcp', 'google cloud platform', 'google-cloud'] },
+  { name: 'Azure', category: 'cloud', aliases: ['microsoft azure'] },
+  { name: 'Firebase', category: 'cloud' },
+  { name: 'Heroku', category: 'cloud' },
+  { name: 'Vercel', category: 'cloud' },
+
+  // データベース
+  { name: 'MySQL', category: 'database' },
+  { name: 'PostgreSQL', category: 'database', aliases: ['postgres'] },
+  { name: 'SQLite', category: 'database' },
+  { name: 'MongoDB', category: 'database', aliases: ['mongo'], keywords: ['mongodb'] },
+  { name: 'Redis', category: 'database' },
+  { name: 'DynamoDB', category: 'database' },
+  { name: 'Elasticsearch', category: 'database' },
+  { name: 'BigQuery', category: 'database' },
+];
+
+/**
+ * 技術ではないが関心として扱う分野のキーワード
+ */
+export const TOPIC_KEYWORDS = [
+  'cloud', 'devops', 'ci/cd', 'cicd',
+  'ai', 'machine learning', 'machinelearning', 'deep learning', 'deeplearning', 'llm', 'data', 'analytics',
+  'web', 'mobile', 'frontend', 'backend', 'fullstack', 'database', 'sql', 'nosql',
+  'security', 'blockchain', 'crypto', 'iot',
+  'architecture', 'microservices', 'serverless', 'testing', 'agile', 'scrum',
+  'design', 'ux', 'accessibility', 'performance', 'optimization',
+];
+
+/**
+ * 曖昧な表記の直後にあれば技術の文脈とみなす語（「Go言語」「Rust lang」「React framework」など）
+ */
+const CONTEXT_WORDS = [
+  'lang', 'language', 'framework', 'library', 'developer', 'engineer',
+  '言語', 'フレームワーク', 'ライブラリ', 'アプリ', 'エンジニア', 'で書', 'で実装', 'で開発',
+];
+
+/**
+ * 表記（小文字）から技術への索引
+ */
+const TECHNOLOGY_INDEX = new Map<string, Technology>(
+  TECHNOLOGIES.flatMap(technology =>
+    [technology.name, ...(technology.aliases ?? [])].map(term => [term.toLowerCase(), technology] as const)
+  )
+);
+
+/**
+ * 文章から技術を検出するための正規表現（技術ごと）
+ *
+ * contextPatternsは曖昧な表記に技術の文脈が続くもの、termPatternsは曖昧な表記そのもの（タグの照合に使う）。
+ * 「go」のような2文字以下の表記は「go-to-market」などに一致しやすいため、複合語のタグからは照合しない
+ */
+const TECHNOLOGY_PATTERNS = TECHNOLOGIES.map(technology => ({
+  technology,
+  patterns: (technology.keywords ?? [technology.name, ...(technology.aliases ?? [])]).map(keyword => wordPattern(keyword)),
+  contextPatterns: (technology.ambiguousKeywords ?? []).map(keyword => wordPattern(keyword, CONTEXT_WORDS)),
+  termPatterns: (technology.ambiguousKeywords ?? []).filter(keyword => keyword.length > 2).map(keyword => wordPattern(keyword)),
+}));
+
+/**
+ * 分野のキーワードを検出するための正規表現
+ */
+const TOPIC_PATTERNS = TOPIC_KEYWORDS.map(keyword => ({ keyword, pattern: wordPattern(keyword) }));
+
+/**
+ * タグ・トピック・依存関係などの名前から技術を引く（完全一致）
+ */
+export function findTechnology(term: string): Technology | undefined {
+  return TECHNOLOGY_INDEX.get(term.trim().toLowerCase());
+}
+
+/**
+ * GitHubやGitLabが返す言語名を正規の表記にそろえる（辞書にない言語はそのまま）
+ */
+export function canonicalLanguage(language: string): string {
+  const technology = findTechnology(language);
+  return technology?.category === 'language' ? technology.name : language;
+}
+
+/**
+ * 文章に含まれる技術を検出
+ *
+ * 単語の境界で照合するため、「go」が「google」に、「java」が「javascript」に一致することはない。
+ * 一般的な単語でもある表記は技術の文脈がある場合だけ検出する（「Spring is here」はSpringにならない）。
+ * matchは文章中で一致した表記（根拠の抜粋に使う）
+ */
+export function findTechnologiesInText(text: string): { technology: Technology; match: string }[] {
+  return matchTechnologies(text, false);
+}
+
+/**
+ * 文章に含まれる分野のキーワードを検出
+ */
+export function findTopicKeywordsInText(text: string): string[] {
+  return TOPIC_PATTERNS.filter(({ pattern }) => pattern.test(text)).map(({ keyword }) => keyword);
+}
+
+/**
+ * タグやトピックの名前から技術を引く
+ *
+ * 完全一致しない場合は、「react-hooks」のような複合語に含まれる技術を探す
+ * （タグ自体が技術の文脈を示すため、曖昧な表記も文脈なしで照合する）
+ * （「ruby-on-rails-7」がRubyではなくRuby on Railsになるよう、最も長く一致したものを選ぶ）
+ */
+export function classifyTerm(term: string): Technology | undefined {
+  const exact = findTechnology(term);
+  if (exact) return exact;
+
+  return matchTechnologies(term.replace(/_/g, ' '), true)
+    .sort((a, b) => b.match.length - a.match.length)[0]?.technology;
+}
+
+/**
+ * 技術の分類に対応する技術スタックの項目（クラウドとデータベースはツールとして集計する）
+ */
+export function techStackKey(category: TechnologyCategory): keyof TechStackScores {
+  switch (category) {
+    case 'language':
+      return 'languages';
+    case 'framework':
+      return 'frameworks';
+    default:
+      return 'tools';
+  }
+}
+
+/**
+ * 技術スタックのスコアに加算
+ */
+export function addTechnology(scores: TechStackScores, technology: Technology, count: number = 1): void {
+  const entries = scores[techStackKey(technology.category)];
+  entries[technology.name] = (entries[technology.name] || 0) + count;
+}
+
+/**
+ * 文章に含まれる技術を検出（isTermがtrueの場合は曖昧な表記も文脈なしで照合する）
+ */
+function matchTechnologies(text: string, isTerm: boolean): { technology: Technology; match: string }[] {
+  const found: { technology: Technology; match: string }[] = [];
+
+  for (const { technology, patterns, contextPatterns, termPatterns } of TECHNOLOGY_PATTERNS) {
+    for (const pattern of [...patterns, ...(isTerm ? termPatterns : contextPatterns)]) {
+      const match = text.match(pattern);
+      if (match) {
+        found.push({ technology, match: match[0] });
+        break;
+      }
+    }
+  }
+
+  return found;
+}
+
+/**
+ * 表記を単語の境界で照合する正規表現を作る（大文字小文字は区別しない）
+ *
+ * 日本語の文章でも使えるよう、前後が英数字でないことだけを境界の条件とする。
+ * contextWordsを指定した場合は、表記の直後にそのいずれかが続く場合だけ一致する
+ */
+function wordPattern(keyword: string, contextWords?: string[]): RegExp {
+  const escape = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const context = contextWords ? `[\\s-]?(?:${contextWords.map(escape).join('|')})` : '';
+  return new RegExp(`(?<![A-Za-z0-9_])${escape(keyword)}${context}(?![A-Za-z0-9_])`, 'i');
+}
@@ -0,0 +1,241 @@
+import { TechStack } from './types.js';
+import { AnalyzedProfile, profileUri } from './profiles.js';
+import { ComparedPerson } from './compare.js';
+
+/**
+ * カバレッジ表に表示する項目の最大件数（カテゴリごと）
+ */
+const MAX_MATRIX_ROWS = 20;
+
+/**
+ * トピックのクラスタに含める最小人数（1人だけのトピックは個人の関心として扱う）
+ */
+const MIN_CLUSTER_MEMBERS = 2;
+
+/**
+ * 同じクラスタとみなすトピック同士の類似度（関心を持つメンバーの集合のJaccard係数）
+ */
+const CLUSTER_SIMILARITY_THRESHOLD = 0.5;
+
+type TechCategory = 'languages' | 'frameworks' | 'tools';
+
+/**
+ * カバレッジ表のカテゴリ
+ */
+const CATEGORIES: { key: TechCategory; title: string }[] = [
+  { key: 'languages', title: '言語' },
+  { key: 'frameworks', title: 'フレームワーク' },
+  { key: 'tools', title: 'ツール' },
+];
+
+/**
+ * カバレッジ表の1行（メンバーは添字で表す）
+ */
+export interface CoverageRow {
+  name: string;
+  scores: (number | null)[]; // メンバーごとのスコア（使っていない場合はnull）
+  members: number; // 使っているメンバーの人数
+}
+
+/**
+ * 1人しか使っていない技術（その人が抜けるとチームから失われる）
+ */
+export interface BusFactorWarning {
+  category: TechCategory;
+  name: string;
+  member: number;
+}
+
+/**
+ * 複数のメンバーが関心を持つトピックのまとまり
+ */
+export interface TopicCluster {
+  topics: string[];
+  members: number[];
+}
+
+/**
+ * チーム全体の分析結果
+ */
+export interface TeamAnalysis {
+  members: ComparedPerson[];
+  techStack: TechStack; // 各技術を使っているメンバーの人数
+  coverage: Record<TechCategory, CoverageRow[]>;
+  busFactorWarnings: BusFactorWarning[];
+  topicClusters: TopicCluster[];
+}
+
+/**
+ * メンバーの分析結果をチーム全体に集計
+ */
+export function analyzeTeam(profiles: AnalyzedProfile[]): TeamAnalysis {
+  const coverage = {
+    languages: buildCoverage(profiles, 'languages'),
+    frameworks: buildCoverage(profiles, 'frameworks'),
+    tools: buildCoverage(profiles, 'tools'),
+  };
+
+  const toCounts = (rows: CoverageRow[]) => Object.fromEntries(rows.map(row => [row.name, row.members]));
+
+  return {
+    members: profiles.map(profile => ({
+      id: profile.id,
+      name: profile.name,
+      uri: profileUri(profile.id),
+    })),
+    techStack: {
+      languages: toCounts(coverage.languages),
+      frameworks: toCounts(coverage.frameworks),
+      tools: toCounts(coverage.tools),
+      topics: Array.from(new Set(profiles.flatMap(profile => profile.result.techStack.topics))),
+    },
+    coverage,
+    busFactorWarnings: findBusFactorWarnings(coverage, profiles.length),
+    topicClusters: clusterTopics(profiles),
+  };
+}
+
+/**
+ * カテゴリごとに、各技術をどのメンバーがどの程度使っているかを集計
+ *
+ * 使っている人数が多い順（同数ならスコアの合計が大きい順）に並べる
+ */
+function buildCoverage(profiles: AnalyzedProfile[], category: TechCategory): CoverageRow[] {
+  const rows = new Map<string, CoverageRow>();
+
+  profiles.forEach((profile, member) => {
+    for (const [name, score] of Object.entries(profile.result.techStack[category])) {
+      const key = name.toLowerCase();
+      const row = rows.get(key) ?? { name, scores: profiles.map(() => null), members: 0 };
+      if (row.scores[member] === null) row.members++;
+      row.scores[member] = (row.scores[member] ?? 0) + score;
+      rows.set(key, row);
+    }
+  });
+
+  const total = (row: CoverageRow) => row.scores.reduce<number>((sum, score) => sum + (score ?? 0), 0);
+  return Array.from(rows.values()).sort((a, b) => b.members - a.members || total(b) - total(a));
+}
+
+/**
+ * 1人しか使っていない技術を、その人のスコアが高い順に抽出
+ */
+function findBusFactorWarnings(
+  coverage: Record<TechCategory, CoverageRow[]>,
+  memberCount: number
+): BusFactorWarning[] {
+  // 1人のチームでは全ての技術が該当するため警告しない
+  if (memberCount < 2) return [];
+
+  return CATEGORIES.flatMap(({ key }) =>
+    coverage[key]
+      .filter(row => row.members === 1)
+      .map(row => {
+        const member = row.scores.findIndex(score => score !== null);
+        return { category: key, name: row.name, member, score: row.scores[member] ?? 0 };
+      })
+  )
+    .sort((a, b) => b.score - a.score)
+    .map(({ score, ...warning }) => warning);
+}
+
+/**
+ * 関心を持つメンバーが似ているトピックをまとめる
+ *
+ * メンバーの集合の類似度が閾値以上のトピック同士をつなぎ、連結成分を1つのクラスタとする
+ */
+function clusterTopics(profiles: AnalyzedProfile[]): TopicCluster[] {
+  // トピックごとに関心を持つメンバーを集める（技術トピックと興味・関心の両方）
+  const holders = new Map<string, { topic: string; members: Set<number> }>();
+  profiles.forEach((profile, member) => {
+    const topics = [...profile.result.techStack.topics, ...profile.result.personality.interests];
+    for (const topic of topics) {
+      const key = topic.toLowerCase();
+      const entry = holders.get(key) ?? { topic, members: new Set<number>() };
+      entry.members.add(member);
+      holders.set(key, entry);
+    }
+  });
+
+  const shared = Array.from(holders.values()).filter(entry => entry.members.size >= MIN_CLUSTER_MEMBERS);
+  const visited = new Set<number>();
+  const clusters: TopicCluster[] = [];
+
+  for (let start = 0; start < shared.length; start++) {
+    if (visited.has(start)) continue;
+
+    // 幅優先探索で類似するトピックを集める
+    const queue = [start];
+    const indices: number[] = [];
+    visited.add(start);
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      indices.push(current);
+      for (let other = 0; other < shared.length; other++) {
+        if (visited.has(other)) continue;
+        if (jaccard(shared[current].members, shared[other].members) >= CLUSTER_SIMILARITY_THRESHOLD) {
+          visited.add(other);
+          queue.push(other);
+        }
+      }
+    }
+
+    const members = new Set(indices.flatMap(index => Array.from(shared[index].members)));
+    clusters.push({
+      topics: indices.map(index => shared[index].topic),
+      members: Array.from(members).sort((a, b) => a - b),
+    });
+  }
+
+  // 関心を持つメンバーが多く、トピックが多いクラスタから並べる
+  return clusters.sort((a, b) => b.members.length - a.members.length || b.topics.length - a.topics.length);
+}
+
+/**
+ * 2つの集合のJaccard係数
+ */
+function jaccard(a: Set<number>, b: Set<number>): number {
+  const intersection = Array.from(a).filter(value => b.has(value)).length;
+  return intersection / (a.size + b.size - intersection);
+}
+
+/**
+ * チームの分析結果をMarkdownに変換
+ */
+export function formatTeamReport(team: TeamAnalysis, title: string): string {
+  const names = team.members.map(member => member.name);
+  const header = `| 項目 | 人数 | ${names.join(' | ')} |\n| --- | --- |${names.map(() => ' --- |').join('')}\n`;
+
+  let report = `# ${title}のスキルマップ（${names.length}人）\n`;
+
+  // 技術スタックのカバレッジ
+  for (const { key, title: categoryTitle } of CATEGORIES) {
+    const rows = team.coverage[key].slice(0, MAX_MATRIX_ROWS);
+    if (rows.length === 0) continue;
+
+    report += `\n## ${categoryTitle}\n\n${header}`;
+    for (const row of rows) {
+      const cells = row.scores.map(score => (score !== null ? String(Math.round(score * 100) / 100) : '-'));
+      report += `| ${row.name} | ${row.members} | ${cells.join(' | ')} |\n`;
+    }
+  }
+
+  // 1人しか使っていない技術
+  if (team.busFactorWarnings.length > 0) {
+    report += '\n## 1人しか使っていない技術\n\n';
+    for (const warning of team.busFactorWarnings.slice(0, MAX_MATRIX_ROWS)) {
+      report += `・${warning.name}: ${names[warning.member]}のみ\n`;
+    }
+  }
+
+  // トピックのクラスタ
+  if (team.topicClusters.length > 0) {
+    report += '\n## 共通の関心\n\n';
+    for (const cluster of team.topicClusters) {
+      const members = cluster.members.map(member => names[member]).join('、');
+      report += `・${cluster.topics.join(', ')}（${members}）\n`;
+    }
+  }
+
+  return report;
+}
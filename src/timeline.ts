@@ -0,0 +1,98 @@
+import { TechStack, TechTimeline } from './types.js';
+
+/**
+ * 「現在使っている」とみなす期間（年）
+ */
+export const RECENT_YEARS = 2;
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * 根拠の日付から利用時期を求める
+ */
+export function buildTimeline(dates: string[], now: Date = new Date()): TechTimeline | undefined {
+  const times = dates
+    .map(date => new Date(date).getTime())
+    .filter(time => !isNaN(time))
+    .sort((a, b) => a - b);
+  if (times.length === 0) return undefined;
+
+  const years: Record<string, number> = {};
+  for (const time of times) {
+    const year = String(new Date(time).getUTCFullYear());
+    years[year] = (years[year] || 0) + 1 / times.length;
+  }
+
+  const recentSince = now.getTime() - RECENT_YEARS * YEAR_MS;
+  return {
+    firstSeen: new Date(times[0]).toISOString(),
+    lastSeen: new Date(times[times.length - 1]).toISOString(),
+    years,
+    recentWeight: times.filter(time => time >= recentSince).length / times.length,
+  };
+}
+
+/**
+ * 複数のプラットフォームの利用時期を項目ごとにまとめる
+ *
+ * 根拠の数はプラットフォームによって桁が異なるため、年ごとの割合と直近の割合はプラットフォーム間で平均する
+ */
+export function mergeTimelines(records: (Record<string, TechTimeline> | undefined)[]): Record<string, TechTimeline> {
+  const grouped = new Map<string, TechTimeline[]>();
+  for (const record of records) {
+    for (const [key, timeline] of Object.entries(record ?? {})) {
+      grouped.set(key, [...(grouped.get(key) ?? []), timeline]);
+    }
+  }
+
+  const merged: Record<string, TechTimeline> = {};
+  for (const [key, timelines] of grouped) {
+    const years: Record<string, number> = {};
+    for (const timeline of timelines) {
+      for (const [year, weight] of Object.entries(timeline.years)) {
+        years[year] = (years[year] || 0) + weight / timelines.length;
+      }
+    }
+
+    merged[key] = {
+      firstSeen: timelines.map(t => t.firstSeen).sort()[0],
+      lastSeen: timelines.map(t => t.lastSeen).sort().reverse()[0],
+      years,
+      recentWeight: timelines.reduce((sum, t) => sum + t.recentWeight, 0) / timelines.length,
+    };
+  }
+
+  return merged;
+}
+
+/**
+ * 技術スタックの技術を、現在使っているものと以前使っていたものに分ける（それぞれスコア順）
+ *
+ * 最も新しい根拠が直近の期間内にあれば現在使っているとみなす。日付のわかる根拠がない技術はどちらにも含めない
+ */
+export function splitByRecency(
+  techStack: TechStack,
+  now: Date = new Date()
+): { current: string[]; past: { name: string; lastSeen: string }[] } {
+  const recentSince = now.getTime() - RECENT_YEARS * YEAR_MS;
+  const entries = [
+    ...Object.entries(techStack.languages),
+    ...Object.entries(techStack.frameworks),
+    ...Object.entries(techStack.tools),
+  ].sort(([, a], [, b]) => b - a);
+
+  const current: string[] = [];
+  const past: { name: string; lastSeen: string }[] = [];
+  for (const [name] of entries) {
+    const timeline = techStack.timeline?.[name];
+    if (!timeline) continue;
+
+    if (new Date(timeline.lastSeen).getTime() >= recentSince) {
+      current.push(name);
+    } else {
+      past.push({ name, lastSeen: timeline.lastSeen });
+    }
+  }
+
+  return { current, past };
+}
@@ -1,21 +1,82 @@
 /**
- * 分析対象のプラットフォーム
+ * 組み込みの分析対象プラットフォーム
  */
 export enum Platform {
   GITHUB = 'github',
+  GITLAB = 'gitlab',
   TWITTER = 'twitter',
   SPEAKERDECK = 'speakerdeck',
-  BLOG = 'blog'
+  BLOG = 'blog',
+  ZENN = 'zenn',
+  QIITA = 'qiita'
+}
+
+/**
+ * ツールの出力形式
+ */
+export enum OutputFormat {
+  TEXT = 'text', // 要約テキストのみ
+  JSON = 'json', // 構造化された分析結果のみ
+  BOTH = 'both' // 要約テキストと構造化された分析結果の両方
+}
+
+/**
+ * プラットフォームごとの分析状況
+ */
+export enum AnalysisStatus {
+  OK = 'ok', // 分析成功
+  FAILED = 'failed', // エラーにより失敗
+  SKIPPED_NO_TOKEN = 'skipped-no-token', // APIトークンが未設定のためスキップ
+  RATE_LIMITED = 'rate-limited', // レート制限のため分析できなかった
+  NOT_FOUND = 'not-found', // ユーザーやページが存在しない
+  TIMED_OUT = 'timed-out', // 制限時間内に完了しなかった
+  CANCELLED = 'cancelled' // 呼び出し元によって中断された
+}
+
+/**
+ * プラットフォームの分析状況と理由
+ */
+export interface PlatformStatus {
+  platform: string;
+  url: string;
+  status: AnalysisStatus;
+  reason?: string; // OK以外の場合の理由
+  resetAt?: string; // レート制限が解除される日時（ISO 8601形式）
+}
+
+/**
+ * 分析結果の根拠
+ */
+export interface Evidence {
+  platform: string; // 根拠を得たプラットフォームID
+  url: string; // リポジトリ・記事・ツイート・スライドなどのURL
+  snippet?: string; // 一致した文字列やファイル名
+  date?: string; // 根拠の日付（リポジトリの最終更新日・投稿日・公開日などのISO 8601形式）
+}
+
+/**
+ * 技術ごとの利用時期
+ */
+export interface TechTimeline {
+  firstSeen: string; // 最も古い根拠の日付（ISO 8601形式）
+  lastSeen: string; // 最も新しい根拠の日付（ISO 8601形式）
+  years: { [year: string]: number }; // 年ごとの根拠の割合（合計1）
+  recentWeight: number; // 直近の根拠の割合（0〜1、1に近いほど最近使っている）
 }
 
 /**
  * 技術スタック情報
+ *
+ * プラットフォームごとのスコアはサービス固有の単位（バイト数・言及数など）で、
+ * 統合後のスコアは0〜1の習熟度の目安（1に近いほど複数のプラットフォームで強く裏付けられている）
  */
 export interface TechStack {
   languages: { [language: string]: number }; // 言語名とその使用頻度/スコア
   frameworks: { [framework: string]: number }; // フレームワーク名とその使用頻度/スコア
   tools: { [tool: string]: number }; // ツール名とその使用頻度/スコア
   topics: string[]; // 関心のあるトピック
+  evidence?: { [entry: string]: Evidence[] }; // 言語・フレームワーク・ツール・トピックごとの根拠
+  timeline?: { [entry: string]: TechTimeline }; // 日付のわかる根拠がある技術・トピックの利用時期
 }
 
 /**
@@ -26,17 +87,19 @@ export interface Personality {
   activities: string[]; // 活動内容
   communication: {
     style?: string; // コミュニケーションスタイル
-    frequency?: number; // 発信頻度
+    frequency?: number; // 発信頻度（1か月あたりの投稿数。ツイート・記事・発表などプラットフォームによらず同じ単位）
     topics?: string[]; // よく話すトピック
+    engagement?: number; // 1投稿あたりの平均いいね数（ストックなどプラットフォーム固有の反応は含めない）
   };
   workStyle?: string; // 仕事のスタイル
+  evidence?: { [field: string]: Evidence[] }; // 項目ごとの根拠（キーは'communication.style'などのフィールド名）
 }
 
 /**
  * プラットフォームごとの分析結果
  */
 export interface PlatformAnalysis {
-  platform: Platform;
+  platform: string; // Platformの値、または登録されたサービスのID
   url: string;
   techStack: Partial<TechStack>;
   personality: Partial<Personality>;
@@ -51,14 +114,38 @@ export interface AnalysisResult {
   techStack: TechStack;
   personality: Personality;
   summary: string;
+  statuses: PlatformStatus[]; // URLが指定された各プラットフォームの分析状況
 }
 
 /**
- * 分析リクエスト
+ * 分析リクエスト（キーはプラットフォームID、値はプロフィールURL）
  */
 export interface AnalysisRequest {
   github?: string;
+  gitlab?: string;
   twitter?: string;
   speakerdeck?: string;
   blog?: string;
+  zenn?: string;
+  qiita?: string;
+  [platform: string]: string | undefined;
+}
+
+/**
+ * 分析の途中経過を通知するコールバック（例: 「依存関係を解析中 (3/10)」）
+ */
+export type ProgressReporter = (message: string) => void;
+
+/**
+ * プラットフォームごとの分析サービス
+ *
+ * レジストリに登録すると、ツールのスキーマ・URL検証・分析・要約に自動的に組み込まれる
+ */
+export interface PlatformService {
+  readonly platform: string; // プラットフォームID（AnalysisRequestのキー）
+  readonly label: string; // 要約やエラーメッセージで使う表示名
+  readonly description: string; // ツールのinputSchemaに表示する説明
+  readonly urlExample: string; // URLが無効な場合に提示する例
+  validateUrl(url: string): boolean;
+  analyze(url: string, signal?: AbortSignal, onProgress?: ProgressReporter): Promise<PlatformAnalysis>; // signalが中断されたら処理を打ち切る
 }
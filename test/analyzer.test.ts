@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { PersonAnalyzer } from '../src/analyzer.js';
+import { PlatformRegistry } from '../src/registry.js';
+import { PlatformAnalysis, PlatformService, TechStack } from '../src/types.js';
+
+/**
+ * 指定した技術スタックを返すだけのサービス
+ */
+function fakeService(platform: string, techStack: Partial<TechStack>): PlatformService {
+  return {
+    platform,
+    label: platform,
+    description: `${platform}のURL`,
+    urlExample: `https://${platform}.example.com/user`,
+    validateUrl: () => true,
+    analyze: async (url: string): Promise<PlatformAnalysis> => ({
+      platform,
+      url,
+      techStack: { topics: [], ...techStack },
+      personality: { interests: [], activities: [], communication: {} },
+    }),
+  };
+}
+
+/**
+ * サービスを登録して全てのプラットフォームを分析し、統合後の技術スタックを返す
+ */
+async function mergedTechStack(
+  services: PlatformService[],
+  options: ConstructorParameters<typeof PersonAnalyzer>[1] = {}
+): Promise<TechStack> {
+  const registry = new PlatformRegistry();
+  services.forEach(service => registry.register(service));
+
+  const analyzer = new PersonAnalyzer(registry, options);
+  const request = Object.fromEntries(services.map(service => [service.platform, service.urlExample]));
+  return (await analyzer.analyze(request)).techStack;
+}
+
+describe('PersonAnalyzerのスコアの統合', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('プラットフォームごとに対数で0〜1に正規化する', async () => {
+    const techStack = await mergedTechStack([
+      fakeService('github', { languages: { TypeScript: 100000, Go: 100 } }),
+    ]);
+
+    expect(techStack.languages.TypeScript).toBe(1);
+    expect(techStack.languages.Go).toBeCloseTo(Math.log1p(100) / Math.log1p(100000));
+  });
+
+  it('単位の異なるプラットフォームを重み付きで平均する', async () => {
+    const techStack = await mergedTechStack([
+      fakeService('github', { languages: { TypeScript: 100000, Go: 100 } }),
+      fakeService('twitter', { languages: { TypeScript: 3, Rust: 3 } }),
+    ]);
+
+    // githubの重みは1、twitterは0.5
+    expect(techStack.languages.TypeScript).toBeCloseTo(1);
+    expect(techStack.languages.Rust).toBeCloseTo(0.5 / 1.5);
+    expect(techStack.languages.Go).toBeCloseTo((Math.log1p(100) / Math.log1p(100000)) / 1.5);
+    expect(Object.keys(techStack.languages)).toEqual(['TypeScript', 'Rust', 'Go']);
+  });
+
+  it('そのカテゴリの技術を検出しなかったプラットフォームは平均に含めない', async () => {
+    const techStack = await mergedTechStack([
+      fakeService('github', { languages: { TypeScript: 1000 }, frameworks: {} }),
+      fakeService('zenn', { frameworks: { React: 5 } }),
+    ]);
+
+    expect(techStack.frameworks.React).toBe(1);
+  });
+
+  it('スコアが0以下の技術は統合結果に含めない', async () => {
+    const techStack = await mergedTechStack([
+      fakeService('github', { tools: { Docker: 3, Terraform: 0 } }),
+    ]);
+
+    expect(techStack.tools).toEqual({ Docker: 1 });
+  });
+
+  it('指定した重みで既定の重みを上書きし、未指定のプラットフォームは1とする', async () => {
+    const techStack = await mergedTechStack([
+      fakeService('github', { languages: { Go: 10 } }),
+      fakeService('custom', { languages: { Rust: 10 } }),
+    ], { platformWeights: { github: 3 } });
+
+    expect(techStack.languages.Go).toBeCloseTo(3 / 4);
+    expect(techStack.languages.Rust).toBeCloseTo(1 / 4);
+  });
+});
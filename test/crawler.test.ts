@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import axios from 'axios';
+import { BlogCrawler } from '../src/services/crawler.js';
+
+vi.mock('axios', () => ({ default: { get: vi.fn() } }));
+
+const get = vi.mocked(axios.get);
+
+/**
+ * robots.txtの内容を返すようにaxiosを差し替えてクローラーを作成
+ */
+function crawlerWithRobots(robots: string, options: ConstructorParameters<typeof BlogCrawler>[1] = {}): BlogCrawler {
+  get.mockResolvedValue({ data: robots, headers: {} });
+  return new BlogCrawler('https://blog.example.com/', options);
+}
+
+describe('BlogCrawler robots.txt', () => {
+  afterEach(() => {
+    get.mockReset();
+  });
+
+  it('Disallowのパスを取得せず、より長いAllowを優先する', async () => {
+    const crawler = crawlerWithRobots([
+      'User-agent: *',
+      'Disallow: /private',
+      'Allow: /private/public',
+    ].join('\n'));
+
+    expect(await crawler.canFetch('https://blog.example.com/posts/1')).toBe(true);
+    expect(await crawler.canFetch('https://blog.example.com/private/draft')).toBe(false);
+    expect(await crawler.canFetch('https://blog.example.com/private/public/1')).toBe(true);
+  });
+
+  it('自身のUser-agent向けのグループを*より優先する', async () => {
+    const crawler = crawlerWithRobots([
+      'User-agent: *',
+      'Disallow: /',
+      '',
+      'User-agent: Googlebot',
+      'User-agent: how-person-bot',
+      'Disallow: /admin',
+    ].join('\n'));
+
+    expect(await crawler.canFetch('https://blog.example.com/posts/1')).toBe(true);
+    expect(await crawler.canFetch('https://blog.example.com/admin/')).toBe(false);
+  });
+
+  it('*と$のパターンに対応し、コメントを無視する', async () => {
+    const crawler = crawlerWithRobots([
+      '# comment',
+      'User-agent: *',
+      'Disallow: /*.pdf$ # PDFは取得しない',
+      'Disallow: /tags/*/page',
+    ].join('\n'));
+
+    expect(await crawler.canFetch('https://blog.example.com/slides/talk.pdf')).toBe(false);
+    expect(await crawler.canFetch('https://blog.example.com/slides/talk.pdf?download=1')).toBe(true);
+    expect(await crawler.canFetch('https://blog.example.com/tags/go/page/2')).toBe(false);
+    expect(await crawler.canFetch('https://blog.example.com/tags/go')).toBe(true);
+  });
+
+  it('Crawl-delayが長い場合は持ち時間内に取得できるページ数に抑える', async () => {
+    const crawler = crawlerWithRobots('User-agent: *\nCrawl-delay: 10', { timeBudgetMs: 45 * 1000 });
+
+    expect(crawler.remaining).toBe(30);
+    await crawler.canFetch('https://blog.example.com/');
+    expect(crawler.remaining).toBe(4);
+  });
+
+  it('robots.txtが取得できない場合は全て許可する', async () => {
+    get.mockRejectedValue(new Error('404'));
+    const crawler = new BlogCrawler('https://blog.example.com/');
+
+    expect(await crawler.canFetch('https://blog.example.com/private/draft')).toBe(true);
+  });
+
+  it('他のオリジンと取得済みのページは取得しない', async () => {
+    const crawler = crawlerWithRobots('');
+    crawler.markVisited('https://blog.example.com/posts/1#comments');
+
+    expect(await crawler.canFetch('https://other.example.com/posts/1')).toBe(false);
+    expect(await crawler.canFetch('https://blog.example.com/posts/1')).toBe(false);
+  });
+});
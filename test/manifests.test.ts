@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest';
+import { detectTechnologies, extractDependencies, isManifestFile } from '../src/services/manifests.js';
+
+/**
+ * 検出した技術の名前だけを取り出す
+ */
+function detectedNames(path: string, content: string): string[] {
+  return detectTechnologies(path, content).map(technology => technology.name);
+}
+
+describe('isManifestFile', () => {
+  it('マニフェスト・ロックファイル・README・CIワークフローを対象にする', () => {
+    expect(isManifestFile('package.json')).toBe(true);
+    expect(isManifestFile('poetry.lock')).toBe(true);
+    expect(isManifestFile('README.md')).toBe(true);
+    expect(isManifestFile('Dockerfile.dev')).toBe(true);
+    expect(isManifestFile('.github/workflows/ci.yml')).toBe(true);
+  });
+
+  it('それ以外のファイルは対象にしない', () => {
+    expect(isManifestFile('index.ts')).toBe(false);
+    expect(isManifestFile('README-ja.md')).toBe(false);
+    expect(isManifestFile('config/ci.yml')).toBe(false);
+  });
+});
+
+describe('extractDependencies', () => {
+  it('package.jsonの各種依存関係を抽出する', () => {
+    const content = JSON.stringify({
+      dependencies: { react: '^18.0.0' },
+      devDependencies: { vitest: '^3.0.0' },
+      peerDependencies: { 'react-dom': '^18.0.0' },
+    });
+    expect(extractDependencies('package.json', content)).toEqual(['react', 'vitest', 'react-dom']);
+  });
+
+  it('不正なJSONは空の配列にする', () => {
+    expect(extractDependencies('package.json', '{')).toEqual([]);
+  });
+
+  it('requirements.txtのバージョン指定・extras・コメント・オプション行を除く', () => {
+    const content = [
+      '# web',
+      'Django>=4.2',
+      'fastapi[all]==0.110.0',
+      'pytest ; python_version > "3.8"',
+      '-r dev.txt',
+    ].join('\n');
+    expect(extractDependencies('requirements.txt', content)).toEqual(['django', 'fastapi', 'pytest']);
+  });
+
+  it('pyproject.tomlのextras付きの依存関係の後も読み続ける', () => {
+    const content = [
+      '[project]',
+      'dependencies = [',
+      '  "fastapi[all]>=0.100", # web',
+      "  'SQLAlchemy',",
+      '  "django ; python_version > \'3\'",',
+      ']',
+      '',
+      '[tool.poetry.group.dev.dependencies]',
+      'python = "^3.11"',
+      'pytest = "^8.0"',
+    ].join('\n');
+    expect(extractDependencies('pyproject.toml', content)).toEqual(['fastapi', 'sqlalchemy', 'django', 'pytest']);
+  });
+
+  it('Cargo.tomlの依存関係のセクションだけを読む', () => {
+    const content = [
+      '[package]',
+      'name = "app"',
+      '',
+      '[dependencies]',
+      'axum = "0.7"',
+      'tokio = { version = "1", features = ["full"] }',
+    ].join('\n');
+    expect(extractDependencies('Cargo.toml', content)).toEqual(['axum', 'tokio']);
+  });
+
+  it('go.modのrequireブロックと単独のrequireを読む', () => {
+    const content = [
+      'module example.com/app',
+      '',
+      'require github.com/labstack/echo/v4 v4.11.0',
+      'require (',
+      '\tgithub.com/gin-gonic/gin v1.9.1',
+      '\tgithub.com/gofiber/fiber/v2 v2.52.0 // indirect',
+      ')',
+    ].join('\n');
+    expect(extractDependencies('go.mod', content)).toEqual([
+      'github.com/labstack/echo/v4',
+      'github.com/gin-gonic/gin',
+      'github.com/gofiber/fiber/v2',
+    ]);
+  });
+
+  it('Gemfile・pom.xml・build.gradleの依存関係を読む', () => {
+    expect(extractDependencies('Gemfile', "source 'https://rubygems.org'\ngem 'rails', '~> 7.1'\n  gem \"rspec-rails\""))
+      .toEqual(['rails', 'rspec-rails']);
+    expect(extractDependencies('pom.xml', [
+      '<dependency>',
+      '  <groupId>org.springframework.boot</groupId>',
+      '  <artifactId>spring-boot-starter-web</artifactId>',
+      '</dependency>',
+    ].join('\n'))).toEqual(['org.springframework.boot:spring-boot-starter-web']);
+    expect(extractDependencies('build.gradle.kts', 'implementation("org.junit.jupiter:junit-jupiter:5.10.0")'))
+      .toEqual(['org.junit.jupiter:junit-jupiter']);
+  });
+
+  it('ロックファイルからパッケージ名を読む', () => {
+    expect(extractDependencies('package-lock.json', JSON.stringify({
+      packages: { '': {}, 'node_modules/react': {}, 'node_modules/jest/node_modules/@babel/core': {} },
+    }))).toEqual(['react', '@babel/core']);
+    expect(extractDependencies('yarn.lock', [
+      '# yarn lockfile v1',
+      '',
+      '"@babel/core@^7.0.0", "@babel/core@^7.1.0":',
+      '  version "7.24.0"',
+      '',
+      'react@^18.2.0:',
+      '  version "18.2.0"',
+    ].join('\n'))).toEqual(['@babel/core', 'react']);
+    expect(extractDependencies('pnpm-lock.yaml', [
+      "lockfileVersion: '9.0'",
+      'packages:',
+      "  '@babel/core@7.24.0':",
+      '    resolution: {integrity: sha512-x}',
+      '  /vite@5.0.0:',
+      '    resolution: {integrity: sha512-y}',
+    ].join('\n'))).toEqual(['@babel/core', 'vite']);
+    expect(extractDependencies('Cargo.lock', '[[package]]\nname = "tokio"\nversion = "1.0.0"\n'))
+      .toEqual(['tokio']);
+    expect(extractDependencies('Gemfile.lock', 'GEM\n  specs:\n    rails (7.1.0)\n      actionpack (= 7.1.0)\n'))
+      .toEqual(['rails']);
+    expect(extractDependencies('composer.lock', JSON.stringify({ packages: [{ name: 'laravel/framework' }] })))
+      .toEqual(['laravel/framework']);
+  });
+
+  it('CIワークフローで使用しているアクションを読む', () => {
+    const content = [
+      'steps:',
+      '  - uses: actions/checkout@v4',
+      '  - uses: "docker/build-push-action@v5"',
+    ].join('\n');
+    expect(extractDependencies('.github/workflows/ci.yml', content))
+      .toEqual(['actions/checkout', 'docker/build-push-action']);
+  });
+});
+
+describe('detectTechnologies', () => {
+  it('依存関係の名前を技術に対応付け、重複をまとめる', () => {
+    const content = JSON.stringify({
+      dependencies: { react: '^18.0.0', '@reduxjs/toolkit': '^2.0.0', redux: '^5.0.0', lodash: '^4.0.0' },
+    });
+    expect(detectedNames('package.json', content)).toEqual(['React', 'Redux']);
+  });
+
+  it('Fiberはモジュールパスが完全に一致する場合だけ検出する', () => {
+    expect(detectedNames('go.mod', 'require github.com/gofiber/fiber/v2 v2.52.0')).toEqual(['Fiber']);
+    expect(detectedNames('go.mod', 'require github.com/gofiber/fiber-contrib v0.1.0')).toEqual([]);
+  });
+
+  it('ファイルの存在自体からDockerとGitHub Actionsを検出する', () => {
+    expect(detectedNames('Dockerfile', 'FROM node:20')).toEqual(['Docker']);
+    expect(detectedNames('.github/workflows/ci.yml', 'uses: aws-actions/configure-aws-credentials@v4'))
+      .toEqual(['GitHub Actions', 'AWS']);
+  });
+
+  it('READMEは本文中の技術名を検出する', () => {
+    expect(detectedNames('README.md', 'A CLI written in TypeScript. Deploy it with Docker and Docker Compose.'))
+      .toEqual(expect.arrayContaining(['TypeScript', 'Docker']));
+    expect(detectedNames('README.md', 'Nothing technical here.')).toEqual([]);
+  });
+});
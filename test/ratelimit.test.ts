@@ -0,0 +1,171 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RateLimiter, RateLimitError, RateLimitInfo } from '../src/ratelimit.js';
+import { GitHubService } from '../src/services/github.js';
+
+/**
+ * レート制限によるエラーとして扱うエラー
+ */
+class LimitedError extends Error {
+  constructor(public readonly info: RateLimitInfo) {
+    super('rate limited');
+  }
+}
+
+const inspectError = (error: unknown) => (error instanceof LimitedError ? error.info : undefined);
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('残りリクエスト数が0の場合は解除まで待ってから実行する', async () => {
+    const limiter = new RateLimiter('Test', inspectError);
+    limiter.update('core', { remaining: 0, resetAt: new Date(Date.now() + 30 * 1000) });
+    const request = vi.fn().mockResolvedValue('ok');
+
+    const result = limiter.run(request, 'core');
+    await vi.advanceTimersByTimeAsync(29 * 1000);
+    expect(request).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(result).resolves.toBe('ok');
+  });
+
+  it('リソースごとに残りリクエスト数を管理する', async () => {
+    const limiter = new RateLimiter('Test', inspectError);
+    limiter.update('search', { remaining: 0, resetAt: new Date(Date.now() + 30 * 1000) });
+
+    await expect(limiter.run(async () => 'ok', 'core')).resolves.toBe('ok');
+  });
+
+  it('解除日時のない情報は記録しない', async () => {
+    const limiter = new RateLimiter('Test', inspectError);
+    limiter.update('core', { remaining: 0 });
+
+    await expect(limiter.run(async () => 'ok', 'core')).resolves.toBe('ok');
+  });
+
+  it('解除までの時間が上限を超える場合はリクエストせずにRateLimitErrorを投げる', async () => {
+    const limiter = new RateLimiter('Test', inspectError, { maxWaitMs: 60 * 1000 });
+    const resetAt = new Date(Date.now() + 15 * 60 * 1000);
+    limiter.update('core', { remaining: 0, resetAt });
+    const request = vi.fn().mockResolvedValue('ok');
+
+    const error = await limiter.run(request, 'core').catch(e => e);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.resetAt).toEqual(resetAt);
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it('Retry-Afterの時間だけ待って再試行する', async () => {
+    const limiter = new RateLimiter('Test', inspectError);
+    const request = vi.fn()
+      .mockRejectedValueOnce(new LimitedError({ retryAfterMs: 5000 }))
+      .mockResolvedValue('ok');
+
+    const result = limiter.run(request);
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(request).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe('ok');
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('解除日時が分からない場合は指数的に待ち、再試行の上限でRateLimitErrorを投げる', async () => {
+    const limiter = new RateLimiter('Test', inspectError, { maxRetries: 2, baseDelayMs: 1000 });
+    const request = vi.fn().mockRejectedValue(new LimitedError({}));
+
+    const result = limiter.run(request).catch(e => e);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(request).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(request).toHaveBeenCalledTimes(3);
+
+    expect(await result).toBeInstanceOf(RateLimitError);
+  });
+
+  it('待ち時間が上限を超える場合は再試行しない', async () => {
+    const limiter = new RateLimiter('Test', inspectError, { maxWaitMs: 1000 });
+    const request = vi.fn().mockRejectedValue(new LimitedError({ retryAfterMs: 5000 }));
+
+    const error = await limiter.run(request).catch(e => e);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.resetAt).toEqual(new Date(Date.now() + 5000));
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('レート制限以外のエラーはそのまま投げる', async () => {
+    const limiter = new RateLimiter('Test', inspectError);
+    const failure = new Error('boom');
+    const request = vi.fn().mockRejectedValue(failure);
+
+    await expect(limiter.run(request)).rejects.toBe(failure);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('待機中に中断されたら中断の理由で失敗する', async () => {
+    const limiter = new RateLimiter('Test', inspectError);
+    limiter.update('core', { remaining: 0, resetAt: new Date(Date.now() + 30 * 1000) });
+    const controller = new AbortController();
+    const request = vi.fn().mockResolvedValue('ok');
+
+    const result = limiter.run(request, 'core', controller.signal).catch(e => e);
+    controller.abort(new Error('cancelled'));
+
+    expect(await result).toEqual(new Error('cancelled'));
+    expect(request).not.toHaveBeenCalled();
+  });
+});
+
+describe('GitHubServiceのレート制限ヘッダー', () => {
+  const service = new GitHubService() as unknown as {
+    readRateLimitHeaders(headers: Record<string, unknown>): RateLimitInfo;
+    inspectRateLimitError(error: unknown): RateLimitInfo | undefined;
+  };
+
+  it('残りリクエスト数・解除日時・Retry-Afterを読み取る', () => {
+    expect(service.readRateLimitHeaders({
+      'x-ratelimit-remaining': '12',
+      'x-ratelimit-reset': '1767225600',
+      'retry-after': '30',
+    })).toEqual({
+      remaining: 12,
+      resetAt: new Date('2026-01-01T00:00:00Z'),
+      retryAfterMs: 30 * 1000,
+    });
+  });
+
+  it('ヘッダーがない項目はundefinedにする', () => {
+    expect(service.readRateLimitHeaders({})).toEqual({
+      remaining: undefined,
+      resetAt: undefined,
+      retryAfterMs: undefined,
+    });
+  });
+
+  it('残りが0の403と429を一次・二次のレート制限として扱う', () => {
+    const primary = { status: 403, response: { headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '1767225600' } } };
+    const secondary = { status: 403, response: { headers: { 'retry-after': '60' } } };
+    const tooMany = { status: 429, response: { headers: {} } };
+
+    expect(service.inspectRateLimitError(primary)).toMatchObject({ remaining: 0 });
+    expect(service.inspectRateLimitError(secondary)).toMatchObject({ retryAfterMs: 60 * 1000 });
+    expect(service.inspectRateLimitError(tooMany)).toBeDefined();
+  });
+
+  it('権限不足の403や他のエラーはレート制限として扱わない', () => {
+    const forbidden = { status: 403, response: { headers: { 'x-ratelimit-remaining': '4999' } } };
+
+    expect(service.inspectRateLimitError(forbidden)).toBeUndefined();
+    expect(service.inspectRateLimitError({ status: 404, response: { headers: {} } })).toBeUndefined();
+    expect(service.inspectRateLimitError(new Error('network'))).toBeUndefined();
+  });
+});
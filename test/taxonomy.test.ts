@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addTechnology,
+  canonicalLanguage,
+  classifyTerm,
+  findTechnologiesInText,
+  findTechnology,
+  findTopicKeywordsInText,
+  TechStackScores,
+} from '../src/taxonomy.js';
+
+/**
+ * 文章から検出した技術の名前だけを取り出す
+ */
+function namesInText(text: string): string[] {
+  return findTechnologiesInText(text).map(({ technology }) => technology.name);
+}
+
+describe('findTechnology', () => {
+  it('正規の表記と別名を大文字小文字を区別せずに引く', () => {
+    expect(findTechnology('TypeScript')?.name).toBe('TypeScript');
+    expect(findTechnology(' golang ')?.name).toBe('Go');
+    expect(findTechnology('ReactJS')?.name).toBe('React');
+    expect(findTechnology('spring-boot')?.name).toBe('Spring');
+  });
+
+  it('辞書にない表記はundefinedにする', () => {
+    expect(findTechnology('react-hooks')).toBeUndefined();
+  });
+});
+
+describe('canonicalLanguage', () => {
+  it('言語名を正規の表記にそろえ、辞書にない言語はそのまま返す', () => {
+    expect(canonicalLanguage('golang')).toBe('Go');
+    expect(canonicalLanguage('Elm')).toBe('Elm');
+    expect(canonicalLanguage('React')).toBe('React');
+  });
+});
+
+describe('findTechnologiesInText', () => {
+  it('単語の境界で照合する', () => {
+    expect(namesInText('Google and JavaScript')).toEqual(['JavaScript']);
+    expect(namesInText('I write Java')).toEqual(['Java']);
+  });
+
+  it('一般的な単語でもある表記は技術の文脈がある場合だけ検出する', () => {
+    expect(namesInText('Spring is here')).toEqual([]);
+    expect(namesInText('Spring Boot入門')).toEqual(['Spring']);
+    expect(namesInText('Go言語でCLIを作る')).toEqual(['Go']);
+    expect(namesInText('Rust lang tips')).toEqual(['Rust']);
+    expect(namesInText('I will go home')).toEqual([]);
+  });
+
+  it('一致した表記を根拠として返す', () => {
+    expect(findTechnologiesInText('Golangの並行処理')).toEqual([
+      expect.objectContaining({ technology: expect.objectContaining({ name: 'Go' }), match: 'Golang' }),
+    ]);
+  });
+});
+
+describe('findTopicKeywordsInText', () => {
+  it('分野のキーワードを単語の境界で検出する', () => {
+    expect(findTopicKeywordsInText('Serverless security at scale')).toEqual(['security', 'serverless']);
+    expect(findTopicKeywordsInText('A webinar about the weather')).toEqual([]);
+  });
+});
+
+describe('classifyTerm', () => {
+  it('完全一致する場合はその技術にする', () => {
+    expect(classifyTerm('rails')?.name).toBe('Ruby on Rails');
+  });
+
+  it('複合語に含まれる技術を、曖昧な表記も含めて探す', () => {
+    expect(classifyTerm('react-hooks')?.name).toBe('React');
+    expect(classifyTerm('rust_async')?.name).toBe('Rust');
+  });
+
+  it('最も長く一致した技術を選ぶ', () => {
+    expect(classifyTerm('ruby-on-rails-7')?.name).toBe('Ruby on Rails');
+  });
+
+  it('2文字以下の曖昧な表記は複合語からは照合しない', () => {
+    expect(classifyTerm('go-to-market')).toBeUndefined();
+  });
+});
+
+describe('addTechnology', () => {
+  it('分類に応じた項目に加算し、クラウドとデータベースはツールとして集計する', () => {
+    const scores: TechStackScores = { languages: {}, frameworks: {}, tools: {} };
+    addTechnology(scores, findTechnology('Go')!);
+    addTechnology(scores, findTechnology('Go')!, 2);
+    addTechnology(scores, findTechnology('React')!);
+    addTechnology(scores, findTechnology('AWS')!);
+    addTechnology(scores, findTechnology('PostgreSQL')!);
+
+    expect(scores).toEqual({
+      languages: { Go: 3 },
+      frameworks: { React: 1 },
+      tools: { AWS: 1, PostgreSQL: 1 },
+    });
+  });
+});